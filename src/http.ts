@@ -0,0 +1,168 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID, timingSafeEqual } from "crypto";
+import http from "http";
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+
+// Path the MCP endpoint is served on
+const MCP_PATH = "/mcp";
+
+// Largest request body accepted, in bytes
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Sessions without a request for this long are closed
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  token?: string; // required as a bearer token or X-API-Key when set
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastSeen: number;
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+// Compare in constant time so the token can't be guessed byte by byte
+function tokenMatches(given: string | undefined, token: string): boolean {
+  if (!given) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const authorization = req.headers.authorization;
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = req.headers["x-api-key"];
+  return tokenMatches(bearer, token) || tokenMatches(Array.isArray(apiKey) ? apiKey[0] : apiKey, token);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+// Serve MCP over Streamable HTTP. Each client session gets its own server
+// from `createServer`; sessions end on DELETE or after an idle hour.
+export async function startHttpServer(createServer: () => Server, options: HttpOptions): Promise<http.Server> {
+  const { host, port, token } = options;
+  const loopback = LOOPBACK_HOSTS.includes(host);
+  if (!token && !loopback) {
+    throw new Error(
+      `Refusing to listen on ${host} without authentication; set FOOD_TRACKER_HTTP_TOKEN or use a loopback host`
+    );
+  }
+
+  // Without a token, only accept requests addressed to this machine, which
+  // stops web pages from reaching the server through DNS rebinding
+  const allowedHosts = token
+    ? undefined
+    : LOOPBACK_HOSTS.map((h) => `${h.includes(":") ? `[${h}]` : h}:${port}`);
+
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    session.transport.close().catch(() => {});
+    session.server.close().catch(() => {});
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      return sendJsonRpcError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+    }
+    if (token && !isAuthorized(req, token)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="food-tracker-mcp"');
+      return sendJsonRpcError(res, 401, "Unauthorized");
+    }
+
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        return sendJsonRpcError(res, 404, "Session not found");
+      }
+      session.lastSeen = Date.now();
+      return session.transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, "Missing Mcp-Session-Id header");
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastSeen: Date.now() });
+      },
+      allowedHosts,
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) closeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    if (!transport.sessionId) {
+      // Initialization failed, so no session will ever reach this server
+      await server.close();
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) closeSession(id);
+    }
+  }, 60 * 1000);
+  sweep.unref();
+  httpServer.on("close", () => {
+    clearInterval(sweep);
+    for (const id of [...sessions.keys()]) closeSession(id);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  return httpServer;
+}
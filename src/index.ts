@@ -3,69 +3,327 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  type CallToolRequest,
+  type GetPromptRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import dotenv from "dotenv";
+import path from "path";
 
-import { USDAApi } from "./services/usda-api.js";
+import { MAX_SEARCH_POOL, USDA_DATA_TYPES, USDAApi } from "./services/usda-api.js";
+import { convertAmount, normalizeUnit } from "./services/units.js";
 import {
   getDb,
+  getDbPath,
+  setDbPath,
+  DEFAULT_PROFILE_NAME,
+  getProfiles,
+  getProfileByName,
+  createProfile,
+  GOALS_START_DATE,
   getGoals,
+  getGoalHistory,
+  getGoalsForDate,
   updateGoals,
+  saveGoalTemplate,
+  getGoalTemplate,
+  getGoalTemplates,
+  setWeekdayTemplate,
+  setDateTemplate,
+  getGoalSchedule,
   logFood,
   getDailyLog,
   getLogsByDateRange,
+  getFirstLogDate,
+  getEntry,
+  getProfileTimeZone,
+  setProfileTimeZone,
+  updateEntry,
   deleteEntry,
+  restoreEntry,
+  undoLastChange,
+  logBodyMetric,
+  getBodyMetrics,
+  deleteBodyMetric,
+  getNutrientTotals,
+  getNutrientGoals,
+  setNutrientGoal,
   calculateTotals,
+  createCustomFood,
+  getCustomFood,
+  searchCustomFoods,
+  createRecipe,
+  getRecipe,
+  getRecipeIngredients,
+  getRecipeNutrients,
+  searchRecipes,
+  getFrequentFoods,
+  saveFavoriteFood,
+  getFavoriteFoods,
+  deleteFavoriteFood,
+  saveMealTemplate,
+  getMealTemplates,
+  deleteMealTemplate,
+  onDataChange,
+  onGoalSettingsChange,
   closeDb,
 } from "./services/database.js";
-import type { NutritionInfo } from "./types.js";
+import { resolveIngredient, scaleCustomFood, scaleCustomFoodNutrients } from "./services/recipes.js";
+import { importUSDADataset } from "./services/usda-import.js";
+import { ACTIVITY_FACTORS, ACTIVITY_LEVELS, estimateEnergy, macroSplitToGrams } from "./services/energy.js";
+import { analyzeWeight, estimateExpenditure } from "./services/trends.js";
+import { formatBarcode, normalizeBarcode } from "./services/barcodes.js";
+import { logMealText } from "./services/meal-text.js";
+import { entryToLog, mealEntries, relog, type RelogSource } from "./services/favorites.js";
+import { getServerTimeZone, isValidDate, shiftDate, shiftMonths, todayIn } from "./services/dates.js";
+import { DEFAULT_EXPORT_DIR, EXPORT_FORMATS, exportData, type ExportFormat } from "./services/export.js";
+import { HISTORY_FORMATS, IMPORT_FIELDS, importFoodHistory } from "./services/history-import.js";
+import {
+  DEFAULT_BACKUP_RETENTION,
+  autoBackup,
+  checkIntegrity,
+  createBackup,
+  getBackupDir,
+  listBackups,
+  restoreBackup,
+} from "./services/backup.js";
+import {
+  RESOURCE_TEMPLATES,
+  affectedResources,
+  goalSettingsResources,
+  getDailySummary,
+  listResources,
+  readResource,
+} from "./services/resources.js";
+import { PROMPTS, planRemainingMeals, reviewWeek } from "./services/prompts.js";
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, startHttpServer } from "./http.js";
+import {
+  NUTRIENT_KEYS,
+  findNutrient,
+  formatNutrientLine,
+  selectNutrientTotals,
+} from "./services/nutrients.js";
+import type { AuditRecord, DailySummary, FoodLogEntry, Goals, NutrientAmount, Profile } from "./types.js";
+import { OUTPUT_SCHEMAS } from "./output-schemas.js";
 
 // Load environment variables
 dotenv.config();
 
+// Global `--db <path>` option, accepted before or after a subcommand
+const cliArgs = process.argv.slice(2);
+const dbFlag = cliArgs.findIndex((arg) => arg === "--db" || arg.startsWith("--db="));
+if (dbFlag !== -1) {
+  const [flag] = cliArgs.splice(dbFlag, 1);
+  const file = flag.startsWith("--db=") ? flag.slice("--db=".length) : cliArgs.splice(dbFlag, 1)[0];
+  if (!file) {
+    console.error("Usage: food-tracker-mcp --db <path> [command]");
+    process.exit(1);
+  }
+  setDbPath(file);
+}
+
+// CLI subcommand (e.g. `food-tracker-mcp import-usda <path>`); none starts the server
+const [command, ...commandArgs] = cliArgs;
+
 const USDA_API_KEY = process.env.USDA_API_KEY;
-if (!USDA_API_KEY) {
-  console.error("Error: USDA_API_KEY environment variable is required");
+if (!USDA_API_KEY && (!command || command === "http")) {
+  console.error("Warning: USDA_API_KEY is not set; using only the imported USDA dataset and local cache");
   console.error("Get your free API key at: https://fdc.nal.usda.gov/api-key-signup/");
-  process.exit(1);
+  console.error("or import a FoodData Central download with: food-tracker-mcp import-usda <path>");
 }
 
-const usdaApi = new USDAApi(USDA_API_KEY);
+// USDA_CACHE_TTL_DAYS, checked up front: a value SQLite can't use as a number
+// of days would make every cached food look stale
+function getCacheTtlDays(): number | undefined {
+  const value = process.env.USDA_CACHE_TTL_DAYS?.trim();
+  if (!value) return undefined;
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    console.error(`USDA_CACHE_TTL_DAYS "${value}" is not a number of days (0 or more)`);
+    process.exit(1);
+  }
+  return days;
+}
+
+const usdaApi = new USDAApi(USDA_API_KEY, { cacheTtlDays: getCacheTtlDays() });
 
 // Initialize database
 getDb();
 
-// Helper to get today's date in YYYY-MM-DD format
-function getToday(): string {
-  return new Date().toISOString().split("T")[0];
+// Profile each client starts with; FOOD_TRACKER_PROFILE picks (and creates
+// if needed) a profile other than the default
+const startupProfileName = process.env.FOOD_TRACKER_PROFILE || DEFAULT_PROFILE_NAME;
+
+function getStartupProfile(): Profile {
+  return getProfileByName(startupProfileName) ?? createProfile(startupProfileName);
+}
+
+getStartupProfile();
+
+// State of one client connection (stdio, or one HTTP session). Each client
+// has its own active profile, used when a call doesn't name one and changed
+// with switch_profile, and its own resource subscriptions.
+interface ClientSession {
+  server: Server;
+  profile: Profile;
+  subscriptions: Set<string>;
+  remote: boolean; // an HTTP client, confined to the export and backup directories
+}
+
+// Resolve a file or directory name given by a remote client inside `dir`.
+// Remote clients may not name paths, so they can't read, write or restore
+// files elsewhere on the server.
+function confinedPath(session: ClientSession, name: string, dir: string): string {
+  if (!session.remote) return name;
+  if (/[\\/]/.test(name) || name === "." || name === "..") {
+    throw new Error(`Over HTTP, give a name in ${dir} rather than a path`);
+  }
+  return path.join(dir, name);
+}
+
+// Resolve the optional `profile` argument of a tool call to a profile ID,
+// defaulting to the client's active profile
+function resolveProfileId(args: unknown, active: Profile): number {
+  const name = (args as { profile?: unknown } | undefined)?.profile;
+  if (typeof name !== "string" || name.trim() === "") {
+    return active.id;
+  }
+
+  const profile = getProfileByName(name);
+  if (!profile) {
+    const names = getProfiles().map((p) => p.name).join(", ");
+    throw new Error(`Profile "${name}" not found. Available profiles: ${names}`);
+  }
+  return profile.id;
+}
+
+// Nutrient amounts given by key, e.g. { sodium: 450 }
+function toNutrientAmounts(amounts: Record<string, number> | undefined): NutrientAmount[] {
+  return Object.entries(amounts ?? {}).map(([key, amount]) => {
+    const nutrient = findNutrient(key);
+    if (!nutrient) {
+      throw new Error(`Unknown nutrient "${key}". Use one of: ${NUTRIENT_KEYS.join(", ")}`);
+    }
+    return { nutrient_id: nutrient.id, name: nutrient.name, unit: nutrient.unit, amount };
+  });
+}
+
+function getProfileName(userId: number): string {
+  return getProfiles().find((p) => p.id === userId)?.name ?? DEFAULT_PROFILE_NAME;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+// Goals recorded as applying from the beginning have no meaningful start date
+function formatEffectiveFrom(date: string | undefined): string {
+  return !date || date === GOALS_START_DATE ? "the start" : date;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Today's date in YYYY-MM-DD format, in the profile's time zone
+function getToday(userId: number): string {
+  return todayIn(getProfileTimeZone(userId));
 }
 
 // Tool input schemas
+
+// A real calendar date, not just any string shaped like one
+const DateSchema = z.iso.date({ error: "Expected a date in YYYY-MM-DD format" });
+
+const NutrientConstraintSchema = z.object({
+  nutrient: z
+    .string()
+    .describe(`calories, protein, carbs, fat, fiber, a nutrient key (${NUTRIENT_KEYS.join(", ")}) or USDA nutrient ID`),
+  min: z.number().optional().describe("At least this much per 100g"),
+  max: z.number().optional().describe("At most this much per 100g"),
+});
+
 const SearchFoodSchema = z.object({
   query: z.string().describe("Food name or description to search for"),
-  limit: z.number().optional().default(10).describe("Number of results to return (default: 10)"),
+  limit: z.number().int().positive().optional().default(10).describe("Number of results to return (default: 10)"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe(`Number of ranked results to skip (below ${MAX_SEARCH_POOL})`),
+  data_types: z
+    .array(z.enum(USDA_DATA_TYPES))
+    .optional()
+    .describe("USDA data types to include"),
+  brand: z.string().optional().describe("Only branded foods whose brand owner contains this"),
+  nutrients: z.array(NutrientConstraintSchema).optional().describe("Nutrient constraints per 100g"),
+});
+
+const LookupBarcodeSchema = z.object({
+  barcode: z.string().describe("UPC or EAN barcode digits"),
 });
 
 const LogFoodSchema = z.object({
-  food_name: z.string().describe("Name of the food"),
+  food_name: z.string().optional().describe("Name of the food (default: USDA description when fdc_id is given)"),
   serving_size: z.number().describe("Amount of the serving"),
   serving_unit: z.string().describe("Unit of measurement (e.g., 'g', 'oz', 'cup', 'piece')"),
-  calories: z.number().describe("Calories for this serving"),
+  calories: z.number().optional().describe("Calories for this serving (omit to compute from fdc_id)"),
   protein_g: z.number().optional().describe("Protein in grams"),
   carbs_g: z.number().optional().describe("Carbohydrates in grams"),
   fat_g: z.number().optional().describe("Fat in grams"),
   fiber_g: z.number().optional().describe("Fiber in grams"),
   meal: z.enum(["breakfast", "lunch", "dinner", "snack"]).optional().describe("Meal type"),
-  date: z.string().optional().describe("Date in YYYY-MM-DD format (default: today)"),
+  date: DateSchema.optional().describe("Date in YYYY-MM-DD format (default: today)"),
   fdc_id: z.number().optional().describe("USDA FDC ID if from search"),
+  custom_food_id: z.number().optional().describe("ID of a saved custom food to log"),
+  density_g_per_ml: z.number().positive().optional().describe("Density used to convert volume units to grams"),
+  nutrients: z
+    .record(z.string(), z.number())
+    .optional()
+    .describe(`Additional nutrients for manual entries, keyed by ${NUTRIENT_KEYS.join(", ")}`),
   notes: z.string().optional().describe("Optional notes"),
 });
 
+const LogMealTextSchema = z.object({
+  text: z.string().min(1).describe("What was eaten, e.g. \"two eggs, a slice of toast and a black coffee\""),
+  meal: z.enum(["breakfast", "lunch", "dinner", "snack"]).optional().describe("Meal type"),
+  date: DateSchema.optional().describe("Date in YYYY-MM-DD format (default: today)"),
+  dry_run: z.boolean().optional().default(false).describe("Preview the matches without logging"),
+  min_confidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .default(0.5)
+    .describe("Lowest match confidence (0-1) that is logged without confirmation"),
+});
+
 const GetDailyLogSchema = z.object({
-  date: z.string().optional().describe("Date in YYYY-MM-DD format (default: today)"),
+  date: DateSchema.optional().describe("Date in YYYY-MM-DD format (default: today)"),
+  all_nutrients: z.boolean().optional().default(false).describe("List every captured nutrient"),
+});
+
+const NutrientGoalSchema = z.object({
+  nutrient: z.string().describe(`Nutrient key (${NUTRIENT_KEYS.join(", ")}) or USDA nutrient ID`),
+  min: z.number().optional().describe("Daily target (at least)"),
+  max: z.number().optional().describe("Daily limit (at most)"),
+});
+
+const MacroSplitSchema = z.object({
+  protein: z.number().min(0).max(100).describe("Percent of calories from protein"),
+  carbs: z.number().min(0).max(100).describe("Percent of calories from carbohydrates"),
+  fat: z.number().min(0).max(100).describe("Percent of calories from fat"),
 });
 
 const SetGoalsSchema = z.object({
@@ -73,11 +331,64 @@ const SetGoalsSchema = z.object({
   protein_g: z.number().optional().describe("Daily protein goal in grams"),
   carbs_g: z.number().optional().describe("Daily carbohydrate goal in grams"),
   fat_g: z.number().optional().describe("Daily fat goal in grams"),
+  macro_split: MacroSplitSchema.optional().describe("Macro goals as percent of calories; converted to grams"),
+  nutrient_goals: z
+    .array(NutrientGoalSchema)
+    .optional()
+    .describe("Micronutrient targets/limits; omit both min and max to remove a goal"),
+  effective_from: DateSchema.optional().describe("Date the goals take effect, YYYY-MM-DD (default: today)"),
 });
 
+const GoalHistorySchema = z.object({});
+
+const CalculateTdeeSchema = z
+  .object({
+    sex: z.enum(["male", "female"]).describe("Sex used by the BMR equation"),
+    age: z.number().int().positive().describe("Age in years"),
+    weight: z.number().positive().describe("Body weight"),
+    weight_unit: z.enum(["kg", "lb"]).optional().default("kg").describe("Unit of weight (default: kg)"),
+    height_cm: z.number().positive().optional().describe("Height in centimeters"),
+    height_in: z.number().positive().optional().describe("Height in inches"),
+    activity_level: z
+      .enum(ACTIVITY_LEVELS)
+      .describe(`Activity level: ${ACTIVITY_LEVELS.join(", ")}`),
+    weekly_change: z
+      .number()
+      .optional()
+      .default(0)
+      .describe("Desired weekly weight change in weight_unit (negative to lose)"),
+    macro_split: MacroSplitSchema.optional().describe("Macro split to convert into gram goals"),
+    save: z.boolean().optional().default(false).describe("Save the proposed targets as your goals"),
+    effective_from: DateSchema.optional().describe("Date saved goals take effect, YYYY-MM-DD (default: today)"),
+  })
+  .refine((v) => v.height_cm !== undefined || v.height_in !== undefined, {
+    message: "Provide height_cm or height_in",
+  });
+
+const SaveGoalTemplateSchema = z.object({
+  name: z.string().min(1).describe("Template name, e.g. 'training' or 'rest'"),
+  daily_calories: z.number().optional().describe("Daily calorie goal"),
+  protein_g: z.number().optional().describe("Daily protein goal in grams"),
+  carbs_g: z.number().optional().describe("Daily carbohydrate goal in grams"),
+  fat_g: z.number().optional().describe("Daily fat goal in grams"),
+});
+
+const SetGoalScheduleSchema = z.object({
+  weekdays: z
+    .record(z.string(), z.string().nullable())
+    .optional()
+    .describe("Template per weekday, e.g. { monday: 'training' }; null or '' clears the day"),
+  dates: z
+    .record(z.string(), z.string().nullable())
+    .optional()
+    .describe("Template per date, e.g. { '2024-06-01': 'training' }; null or '' clears the tag"),
+});
+
+const GetGoalScheduleSchema = z.object({});
+
 const GetSummarySchema = z.object({
-  start_date: z.string().optional().describe("Start date (YYYY-MM-DD)"),
-  end_date: z.string().optional().describe("End date (YYYY-MM-DD)"),
+  start_date: DateSchema.optional().describe("Start date (YYYY-MM-DD)"),
+  end_date: DateSchema.optional().describe("End date (YYYY-MM-DD)"),
   period: z.enum(["week", "month"]).optional().describe("Preset period instead of date range"),
 });
 
@@ -85,47 +396,272 @@ const DeleteEntrySchema = z.object({
   entry_id: z.number().describe("ID of the food log entry to delete"),
 });
 
-// Create server
-const server = new Server(
-  {
-    name: "food-tracker-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+const RestoreEntrySchema = z.object({
+  entry_id: z.number().describe("ID of the deleted food log entry to restore"),
+});
+
+const UpdateEntrySchema = z.object({
+  entry_id: z.number().describe("ID of the food log entry to update"),
+  food_name: z.string().optional().describe("New food name"),
+  serving_size: z.number().positive().optional().describe("New serving amount"),
+  serving_unit: z.string().optional().describe("New serving unit"),
+  calories: z.number().optional().describe("New calories"),
+  protein_g: z.number().optional().describe("New protein in grams"),
+  carbs_g: z.number().optional().describe("New carbohydrates in grams"),
+  fat_g: z.number().optional().describe("New fat in grams"),
+  fiber_g: z.number().optional().describe("New fiber in grams"),
+  meal: z.enum(["breakfast", "lunch", "dinner", "snack"]).optional().describe("New meal type"),
+  date: DateSchema.optional().describe("New date in YYYY-MM-DD format"),
+  notes: z.string().optional().describe("New notes (empty string clears them)"),
+});
+
+const LogBodyMetricsSchema = z
+  .object({
+    weight: z.number().positive().optional().describe("Body weight"),
+    weight_unit: z.enum(["kg", "lb"]).optional().default("kg").describe("Unit of weight (default: kg)"),
+    body_fat_pct: z.number().min(0).max(100).optional().describe("Body fat percentage"),
+    waist: z.number().positive().optional().describe("Waist circumference"),
+    waist_unit: z.enum(["cm", "in"]).optional().default("cm").describe("Unit of waist (default: cm)"),
+    date: DateSchema.optional().describe("Date in YYYY-MM-DD format (default: today)"),
+    notes: z.string().optional().describe("Optional notes"),
+  })
+  .refine((v) => v.weight !== undefined || v.body_fat_pct !== undefined || v.waist !== undefined, {
+    message: "Provide at least one of weight, body_fat_pct or waist",
+  });
+
+const GetWeightTrendSchema = z.object({
+  start_date: DateSchema.optional().describe("Start date (YYYY-MM-DD)"),
+  end_date: DateSchema.optional().describe("End date (YYYY-MM-DD, default: today)"),
+  days: z.number().int().positive().optional().default(30).describe("Days to analyze when no start_date is given"),
+  weight_unit: z.enum(["kg", "lb"]).optional().default("kg").describe("Unit to report weights in"),
+});
+
+const DeleteBodyMetricsSchema = z.object({
+  date: DateSchema.describe("Date of the measurements to delete (YYYY-MM-DD)"),
+});
+
+const ExportDataSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).optional().default("csv").describe("Export format"),
+  start_date: DateSchema.optional().describe("Start date (YYYY-MM-DD, default: first logged day)"),
+  end_date: DateSchema.optional().describe("End date (YYYY-MM-DD, default: today)"),
+  output_dir: z.string().optional().describe(`Directory to write to (default: ${DEFAULT_EXPORT_DIR}; over HTTP, a subdirectory name)`),
+});
+
+const ImportFoodHistorySchema = z.object({
+  file_path: z.string().describe(`Path to the CSV export (over HTTP, a file name in ${DEFAULT_EXPORT_DIR})`),
+  format: z.enum(HISTORY_FORMATS).optional().default("auto").describe("CSV layout (default: detect)"),
+  column_map: z
+    .record(z.enum(IMPORT_FIELDS), z.string())
+    .optional()
+    .describe("CSV column name per field, overriding the format's defaults"),
+  dry_run: z.boolean().optional().default(false).describe("Validate and preview without importing"),
+  skip_duplicates: z.boolean().optional().default(true).describe("Skip rows already in the food log"),
+});
+
+const BackupDatabaseSchema = z.object({
+  label: z
+    .string()
+    .regex(/^[a-z0-9_-]+$/i, "Use letters, digits, '-' or '_'")
+    .optional()
+    .describe("Optional label appended to the file name"),
+});
+
+const RestoreBackupSchema = z.object({
+  backup: z.string().describe("Backup file name from list_backups, or a path (not over HTTP)"),
+  confirm: z.boolean().describe("Must be true; the current database is replaced"),
+});
+
+const ProfileNameSchema = z.object({
+  name: z.string().min(1).describe("Profile name"),
+});
+
+const CreateProfileSchema = ProfileNameSchema.extend({
+  timezone: z.string().optional().describe("IANA time zone, e.g. America/New_York (default: the server's)"),
+});
+
+const SetTimezoneSchema = z.object({
+  timezone: z.string().describe("IANA time zone, e.g. Europe/Berlin; empty to use the server's"),
+});
+
+const CreateCustomFoodSchema = z.object({
+  name: z.string().describe("Name of the custom food"),
+  serving_size: z.number().positive().describe("Amount of one serving"),
+  serving_unit: z.string().describe("Unit of one serving (e.g., 'g', 'cup', 'piece')"),
+  calories: z.number().describe("Calories per serving"),
+  protein_g: z.number().optional().describe("Protein per serving in grams"),
+  carbs_g: z.number().optional().describe("Carbohydrates per serving in grams"),
+  fat_g: z.number().optional().describe("Fat per serving in grams"),
+  fiber_g: z.number().optional().describe("Fiber per serving in grams"),
+  nutrients: z
+    .record(z.string(), z.number())
+    .optional()
+    .describe(`Additional nutrients per serving, keyed by ${NUTRIENT_KEYS.join(", ")}`),
+  notes: z.string().optional().describe("Optional notes"),
+});
+
+const IngredientSchema = z.object({
+  fdc_id: z.number().optional().describe("USDA FDC ID of the ingredient"),
+  custom_food_id: z.number().optional().describe("ID of a custom food ingredient"),
+  amount: z.number().positive().describe("Amount of the ingredient"),
+  unit: z.string().describe("Unit of the amount (e.g., 'g', 'cup', 'serving')"),
+  density_g_per_ml: z.number().positive().optional().describe("Density for volume units"),
+});
+
+const CreateRecipeSchema = z.object({
+  name: z.string().describe("Name of the recipe"),
+  servings: z.number().positive().describe("Number of servings the recipe makes"),
+  ingredients: z.array(IngredientSchema).min(1).describe("Ingredient lines"),
+  notes: z.string().optional().describe("Optional notes"),
+});
+
+const LogRecipeSchema = z.object({
+  recipe_id: z.number().describe("ID of the recipe to log"),
+  servings: z.number().positive().optional().default(1).describe("Number of servings eaten (default: 1)"),
+  meal: z.enum(["breakfast", "lunch", "dinner", "snack"]).optional().describe("Meal type"),
+  date: DateSchema.optional().describe("Date in YYYY-MM-DD format (default: today)"),
+  notes: z.string().optional().describe("Optional notes"),
+});
+
+const ListRecentFoodsSchema = z.object({
+  sort: z
+    .enum(["frequent", "recent"])
+    .optional()
+    .default("frequent")
+    .describe("Most logged first, or most recently logged first (default: frequent)"),
+  days: z.number().int().positive().optional().default(90).describe("How many days back to look (default: 90)"),
+  limit: z.number().int().positive().optional().default(20).describe("Number of foods to return (default: 20)"),
+});
+
+const StarFoodSchema = z.object({
+  entry_id: z.number().describe("ID of a logged entry whose food and serving to star"),
+});
+
+const UnstarFoodSchema = z.object({
+  favorite_id: z.number().describe("ID of the favorite to remove"),
+});
+
+const SaveMealTemplateSchema = z.object({
+  name: z.string().trim().min(1).describe("Template name, e.g. \"usual breakfast\""),
+  entry_ids: z.array(z.number()).min(1).optional().describe("Logged entries to save (default: the meal on date)"),
+  date: DateSchema.optional().describe("Date to take the meal from, YYYY-MM-DD (default: today)"),
+  meal: z.enum(["breakfast", "lunch", "dinner", "snack"]).optional().describe("Meal to save and log it as"),
+});
+
+const MealTemplateNameSchema = z.object({
+  name: z.string().trim().min(1).describe("Template name"),
+});
+
+const RelogSchema = z
+  .object({
+    entry_id: z.number().optional().describe("Log this past entry again"),
+    favorite_id: z.number().optional().describe("Log this favorite"),
+    template: z.string().trim().min(1).optional().describe("Log the foods of this meal template"),
+    from_date: DateSchema.optional().describe("Copy what was logged on this date, YYYY-MM-DD"),
+    from_meal: z
+      .enum(["breakfast", "lunch", "dinner", "snack"])
+      .optional()
+      .describe("Only copy this meal of from_date"),
+    date: DateSchema.optional().describe("Date to log on, YYYY-MM-DD (default: today)"),
+    meal: z
+      .enum(["breakfast", "lunch", "dinner", "snack"])
+      .optional()
+      .describe("Meal to log under (default: the source's meal)"),
+    servings: z.number().positive().optional().default(1).describe("Multiply every serving by this (default: 1)"),
+  })
+  .refine(
+    (v) => [v.entry_id, v.favorite_id, v.template, v.from_date].filter((s) => s !== undefined).length === 1,
+    { message: "Provide exactly one of entry_id, favorite_id, template or from_date" }
+  )
+  .refine((v) => v.from_meal === undefined || v.from_date !== undefined, {
+    message: "from_meal requires from_date",
+  });
+
+// Optional `profile` argument accepted by every diary tool
+const profileProperty = {
+  type: "string",
+  description: "Profile name (default: the active profile)",
+};
 
 // List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listTools() {
   return {
     tools: [
       {
         name: "search_food",
         description:
-          "Search the USDA FoodData Central database for foods. Returns nutrition information per 100g serving.",
+          "Search the USDA FoodData Central database for foods. Returns nutrition information per 100g serving, " +
+          "plus any matching custom foods and recipes you have saved. Results are ranked with generic whole foods, " +
+          "exact name matches and foods you have logged before first, and can be filtered by data type, brand " +
+          "and nutrient content.",
         inputSchema: {
           type: "object",
           properties: {
+            profile: profileProperty,
             query: { type: "string", description: "Food name or description to search for" },
             limit: { type: "number", description: "Number of results (default: 10)" },
+            offset: {
+              type: "number",
+              description: `Number of ranked results to skip, for the next page (default: 0, below ${MAX_SEARCH_POOL})`,
+            },
+            data_types: {
+              type: "array",
+              items: { type: "string", enum: USDA_DATA_TYPES },
+              description: "USDA data types to include (default: Foundation, SR Legacy and Branded)",
+            },
+            brand: { type: "string", description: "Only branded foods whose brand owner contains this" },
+            nutrients: {
+              type: "array",
+              description: "Nutrient constraints per 100g, e.g. protein at least 20",
+              items: {
+                type: "object",
+                properties: {
+                  nutrient: {
+                    type: "string",
+                    description: "calories, protein, carbs, fat, fiber, a nutrient key (sodium, sugars, ...) or USDA nutrient ID",
+                  },
+                  min: { type: "number", description: "At least this much per 100g" },
+                  max: { type: "number", description: "At most this much per 100g" },
+                },
+                required: ["nutrient"],
+              },
+            },
           },
           required: ["query"],
         },
+        outputSchema: OUTPUT_SCHEMAS.search_food,
+      },
+      {
+        name: "lookup_barcode",
+        description:
+          "Find the exact USDA branded food for a UPC/EAN barcode and return its label serving size and " +
+          "nutrition per serving, ready to log with log_food.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            barcode: {
+              type: "string",
+              description: "UPC-A, EAN-13 or GTIN-14 digits; leading zeros and a missing check digit are fine",
+            },
+          },
+          required: ["barcode"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.lookup_barcode,
       },
       {
         name: "log_food",
         description:
-          "Log a food entry to your daily food diary. Include nutrition info from search or estimate.",
+          "Log a food entry to your daily food diary. Either include nutrition info from search or estimate, " +
+          "or pass an fdc_id with serving_size and serving_unit (g, oz, lb, cup, tbsp, ml, serving, or a USDA " +
+          "household portion like 'large') " +
+          "and omit calories to have the server look up and scale the nutrition.",
         inputSchema: {
           type: "object",
           properties: {
-            food_name: { type: "string", description: "Name of the food" },
+            profile: profileProperty,
+            food_name: { type: "string", description: "Name of the food (default: USDA description)" },
             serving_size: { type: "number", description: "Amount of the serving" },
             serving_unit: { type: "string", description: "Unit (g, oz, cup, piece, etc.)" },
-            calories: { type: "number", description: "Calories for this serving" },
+            calories: { type: "number", description: "Calories for this serving (omit to compute from fdc_id)" },
             protein_g: { type: "number", description: "Protein in grams" },
             carbs_g: { type: "number", description: "Carbs in grams" },
             fat_g: { type: "number", description: "Fat in grams" },
@@ -133,34 +669,207 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             meal: { type: "string", enum: ["breakfast", "lunch", "dinner", "snack"] },
             date: { type: "string", description: "Date YYYY-MM-DD (default: today)" },
             fdc_id: { type: "number", description: "USDA FDC ID if from search" },
+            custom_food_id: { type: "number", description: "ID of a saved custom food (omit calories to compute)" },
+            density_g_per_ml: {
+              type: "number",
+              description: "Density (g/ml) for converting volume units when the food has no USDA volume portions",
+            },
+            nutrients: {
+              type: "object",
+              description: `Additional nutrients for manual entries, keyed by ${NUTRIENT_KEYS.join(", ")}`,
+              additionalProperties: { type: "number" },
+            },
             notes: { type: "string", description: "Optional notes" },
           },
-          required: ["food_name", "serving_size", "serving_unit", "calories"],
+          required: ["serving_size", "serving_unit"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.log_food,
+      },
+      {
+        name: "log_meal_text",
+        description:
+          "Log several foods from one sentence, e.g. \"two eggs, a slice of sourdough toast with butter and a black " +
+          "coffee\". Each food is matched against your custom foods and USDA with a confidence score and logged " +
+          "together as one change. Nothing is logged when an item can't be matched or is below min_confidence; " +
+          "use dry_run to preview.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            text: { type: "string", description: "What was eaten, with quantities and units where known" },
+            meal: { type: "string", enum: ["breakfast", "lunch", "dinner", "snack"] },
+            date: { type: "string", description: "Date YYYY-MM-DD (default: today)" },
+            dry_run: { type: "boolean", description: "Preview the matches without logging (default: false)" },
+            min_confidence: {
+              type: "number",
+              description: "Lowest match confidence (0-1) logged without confirmation (default: 0.5)",
+            },
+          },
+          required: ["text"],
         },
+        outputSchema: OUTPUT_SCHEMAS.log_meal_text,
       },
       {
         name: "get_daily_log",
         description:
-          "Get all food entries for a specific day with totals and comparison to goals.",
+          "Get all food entries for a specific day with totals, micronutrients and comparison to goals.",
         inputSchema: {
           type: "object",
           properties: {
+            profile: profileProperty,
             date: { type: "string", description: "Date YYYY-MM-DD (default: today)" },
+            all_nutrients: { type: "boolean", description: "List every captured nutrient (default: false)" },
           },
         },
+        outputSchema: OUTPUT_SCHEMAS.get_daily_log,
       },
       {
         name: "set_goals",
-        description: "Set your daily nutrition goals for calories and macros.",
+        description:
+          "Set your daily nutrition goals for calories, macros and micronutrients (e.g. sodium at most 2300mg).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            daily_calories: { type: "number", description: "Daily calorie goal" },
+            protein_g: { type: "number", description: "Daily protein goal (g)" },
+            carbs_g: { type: "number", description: "Daily carb goal (g)" },
+            fat_g: { type: "number", description: "Daily fat goal (g)" },
+            macro_split: {
+              type: "object",
+              description: "Macro goals as percent of calories (e.g. 40/30/30), converted to grams from the calorie goal",
+              properties: {
+                protein: { type: "number", description: "Percent of calories from protein" },
+                carbs: { type: "number", description: "Percent of calories from carbs" },
+                fat: { type: "number", description: "Percent of calories from fat" },
+              },
+              required: ["protein", "carbs", "fat"],
+            },
+            nutrient_goals: {
+              type: "array",
+              description: "Micronutrient targets/limits; omit both min and max to remove a goal",
+              items: {
+                type: "object",
+                properties: {
+                  nutrient: {
+                    type: "string",
+                    description: `Nutrient key (${NUTRIENT_KEYS.join(", ")}) or USDA nutrient ID`,
+                  },
+                  min: { type: "number", description: "Daily target (at least)" },
+                  max: { type: "number", description: "Daily limit (at most)" },
+                },
+                required: ["nutrient"],
+              },
+            },
+            effective_from: {
+              type: "string",
+              description: "Date the goals take effect, YYYY-MM-DD (default: today). Earlier days keep their goals.",
+            },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.set_goals,
+      },
+      {
+        name: "calculate_tdee",
+        description:
+          "Estimate BMR and daily energy expenditure (Mifflin-St Jeor) and propose a calorie target for a weekly weight change, optionally saving it as your goals.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            sex: { type: "string", enum: ["male", "female"], description: "Sex used by the BMR equation" },
+            age: { type: "number", description: "Age in years" },
+            weight: { type: "number", description: "Body weight" },
+            weight_unit: { type: "string", enum: ["kg", "lb"], description: "Unit of weight (default: kg)" },
+            height_cm: { type: "number", description: "Height in centimeters" },
+            height_in: { type: "number", description: "Height in inches (alternative to height_cm)" },
+            activity_level: {
+              type: "string",
+              enum: ACTIVITY_LEVELS,
+              description: ACTIVITY_LEVELS.map((l) => `${l}: ${ACTIVITY_FACTORS[l].description}`).join("; "),
+            },
+            weekly_change: {
+              type: "number",
+              description: "Desired weekly weight change in weight_unit, negative to lose (default: 0)",
+            },
+            macro_split: {
+              type: "object",
+              description: "Macro goals as percent of calories (e.g. 40/30/30), converted to grams from the target",
+              properties: {
+                protein: { type: "number", description: "Percent of calories from protein" },
+                carbs: { type: "number", description: "Percent of calories from carbs" },
+                fat: { type: "number", description: "Percent of calories from fat" },
+              },
+              required: ["protein", "carbs", "fat"],
+            },
+            save: { type: "boolean", description: "Save the proposed targets with set_goals semantics (default: false)" },
+            effective_from: { type: "string", description: "Date saved goals take effect, YYYY-MM-DD (default: today)" },
+          },
+          required: ["sex", "age", "weight", "activity_level"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.calculate_tdee,
+      },
+      {
+        name: "get_goal_history",
+        description: "List every version of your calorie and macro goals with the date each took effect.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.get_goal_history,
+      },
+      {
+        name: "save_goal_template",
+        description:
+          "Create or update a named goal template (e.g. 'training', 'rest', 'weekend'). Unset values fall back to your regular goals.",
         inputSchema: {
           type: "object",
           properties: {
+            profile: profileProperty,
+            name: { type: "string", description: "Template name" },
             daily_calories: { type: "number", description: "Daily calorie goal" },
             protein_g: { type: "number", description: "Daily protein goal (g)" },
             carbs_g: { type: "number", description: "Daily carb goal (g)" },
             fat_g: { type: "number", description: "Daily fat goal (g)" },
           },
+          required: ["name"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.save_goal_template,
+      },
+      {
+        name: "set_goal_schedule",
+        description:
+          "Apply goal templates by weekday or tag specific dates (e.g. an extra training day). Date tags take precedence over the weekday schedule.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            weekdays: {
+              type: "object",
+              description: "Template name per weekday, e.g. { \"monday\": \"training\" }; null or empty string clears the day",
+              additionalProperties: { type: ["string", "null"] },
+            },
+            dates: {
+              type: "object",
+              description: "Template name per date (YYYY-MM-DD); null or empty string clears the tag",
+              additionalProperties: { type: ["string", "null"] },
+            },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.set_goal_schedule,
+      },
+      {
+        name: "get_goal_schedule",
+        description: "Show your goal templates, weekday schedule and upcoming tagged dates.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+          },
         },
+        outputSchema: OUTPUT_SCHEMAS.get_goal_schedule,
       },
       {
         name: "get_summary",
@@ -168,308 +877,2092 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
+            profile: profileProperty,
             start_date: { type: "string", description: "Start date YYYY-MM-DD" },
             end_date: { type: "string", description: "End date YYYY-MM-DD" },
             period: { type: "string", enum: ["week", "month"], description: "Preset period" },
           },
         },
+        outputSchema: OUTPUT_SCHEMAS.get_summary,
       },
       {
         name: "delete_entry",
-        description: "Delete a food log entry by its ID.",
+        description:
+          "Delete a food log entry by its ID. The entry is kept as deleted and can be brought back with restore_entry.",
         inputSchema: {
           type: "object",
           properties: {
+            profile: profileProperty,
             entry_id: { type: "number", description: "ID of the entry to delete" },
           },
           required: ["entry_id"],
         },
+        outputSchema: OUTPUT_SCHEMAS.delete_entry,
       },
-    ],
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "search_food": {
-        const { query, limit } = SearchFoodSchema.parse(args);
-        const results = await usdaApi.searchFoods(query, limit);
-
-        if (results.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `No foods found matching "${query}". Try a different search term.`,
-              },
-            ],
-          };
-        }
-
-        const formatted = results
-          .map(
-            (food, i) =>
-              `${i + 1}. **${food.description}**${food.brandOwner ? ` (${food.brandOwner})` : ""}\n` +
-              `   FDC ID: ${food.fdcId} | Type: ${food.dataType}\n` +
-              `   Per 100g: ${food.nutrition.calories} cal | ` +
-              `P: ${food.nutrition.protein_g}g | C: ${food.nutrition.carbs_g}g | F: ${food.nutrition.fat_g}g`
-          )
-          .join("\n\n");
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Found ${results.length} foods matching "${query}":\n\n${formatted}\n\n` +
-                `*Nutrition values are per 100g. Scale accordingly when logging.*`,
-            },
-          ],
-        };
-      }
-
-      case "log_food": {
-        const input = LogFoodSchema.parse(args);
-        const date = input.date || getToday();
-
-        const entry = logFood({
-          date,
-          meal: input.meal || null,
-          food_name: input.food_name,
-          fdc_id: input.fdc_id || null,
-          serving_size: input.serving_size,
-          serving_unit: input.serving_unit,
-          calories: input.calories,
-          protein_g: input.protein_g ?? null,
-          carbs_g: input.carbs_g ?? null,
-          fat_g: input.fat_g ?? null,
-          fiber_g: input.fiber_g ?? null,
-          notes: input.notes || null,
-        });
-
-        // Get updated daily totals
-        const dailyEntries = getDailyLog(date);
-        const totals = calculateTotals(dailyEntries);
-        const goals = getGoals();
-
-        let response = `Logged: **${entry.food_name}** (${entry.serving_size} ${entry.serving_unit})\n`;
-        response += `${entry.calories} cal`;
-        if (entry.protein_g) response += ` | P: ${entry.protein_g}g`;
-        if (entry.carbs_g) response += ` | C: ${entry.carbs_g}g`;
-        if (entry.fat_g) response += ` | F: ${entry.fat_g}g`;
-        if (entry.meal) response += `\nMeal: ${entry.meal}`;
-        response += `\n\n**Daily Total (${date}):** ${totals.calories} cal`;
-
-        if (goals?.daily_calories) {
-          const remaining = goals.daily_calories - totals.calories;
-          response += ` | ${remaining > 0 ? remaining + " remaining" : Math.abs(remaining) + " over goal"}`;
-        }
-
-        return { content: [{ type: "text", text: response }] };
-      }
-
-      case "get_daily_log": {
-        const { date } = GetDailyLogSchema.parse(args);
-        const targetDate = date || getToday();
-        const entries = getDailyLog(targetDate);
-        const goals = getGoals();
-
-        if (entries.length === 0) {
-          return {
+      {
+        name: "restore_entry",
+        description: "Restore a deleted food log entry by its ID.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            entry_id: { type: "number", description: "ID of the deleted entry" },
+          },
+          required: ["entry_id"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.restore_entry,
+      },
+      {
+        name: "undo_last_change",
+        description:
+          "Undo the most recent change to the food log or goals (a logged, updated, deleted or restored entry, " +
+          "an import, or a goal change). Call again to step further back.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.undo_last_change,
+      },
+      {
+        name: "update_entry",
+        description:
+          "Update fields of an existing food log entry, keeping its ID and original log time. " +
+          "If only the serving size/unit changes on an entry logged from USDA (fdc_id), " +
+          "nutrients are rescaled automatically.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            entry_id: { type: "number", description: "ID of the entry to update" },
+            food_name: { type: "string", description: "New food name" },
+            serving_size: { type: "number", description: "New serving amount" },
+            serving_unit: { type: "string", description: "New unit (g, oz, cup, piece, etc.)" },
+            calories: { type: "number", description: "New calories" },
+            protein_g: { type: "number", description: "New protein (g)" },
+            carbs_g: { type: "number", description: "New carbs (g)" },
+            fat_g: { type: "number", description: "New fat (g)" },
+            fiber_g: { type: "number", description: "New fiber (g)" },
+            meal: { type: "string", enum: ["breakfast", "lunch", "dinner", "snack"] },
+            date: { type: "string", description: "New date YYYY-MM-DD" },
+            notes: { type: "string", description: "New notes (empty clears)" },
+          },
+          required: ["entry_id"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.update_entry,
+      },
+      {
+        name: "log_body_metrics",
+        description:
+          "Log body weight and optionally body fat % and waist for a day. Logging the same day again updates it.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            weight: { type: "number", description: "Body weight" },
+            weight_unit: { type: "string", enum: ["kg", "lb"], description: "Unit of weight (default: kg)" },
+            body_fat_pct: { type: "number", description: "Body fat percentage" },
+            waist: { type: "number", description: "Waist circumference" },
+            waist_unit: { type: "string", enum: ["cm", "in"], description: "Unit of waist (default: cm)" },
+            date: { type: "string", description: "Date YYYY-MM-DD (default: today)" },
+            notes: { type: "string", description: "Optional notes" },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.log_body_metrics,
+      },
+      {
+        name: "get_weight_trend",
+        description:
+          "Smoothed weight trend, weekly rate of change and estimated actual energy expenditure from weight change and logged intake.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            start_date: { type: "string", description: "Start date YYYY-MM-DD" },
+            end_date: { type: "string", description: "End date YYYY-MM-DD (default: today)" },
+            days: { type: "number", description: "Days to analyze when no start_date is given (default: 30)" },
+            weight_unit: { type: "string", enum: ["kg", "lb"], description: "Unit to report weights in (default: kg)" },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.get_weight_trend,
+      },
+      {
+        name: "delete_body_metrics",
+        description: "Delete the body measurements logged for a date.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            date: { type: "string", description: "Date YYYY-MM-DD" },
+          },
+          required: ["date"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.delete_body_metrics,
+      },
+      {
+        name: "export_data",
+        description:
+          "Export food logs, goals and custom foods for a date range to CSV, JSON or a MyFitnessPal-compatible CSV on disk.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            format: {
+              type: "string",
+              enum: EXPORT_FORMATS,
+              description:
+                "csv: one file per table; json: a single file; myfitnesspal: daily meal totals in MyFitnessPal's export layout (default: csv)",
+            },
+            start_date: { type: "string", description: "Start date YYYY-MM-DD (default: first logged day)" },
+            end_date: { type: "string", description: "End date YYYY-MM-DD (default: today)" },
+            output_dir: { type: "string", description: `Directory to write to (default: ${DEFAULT_EXPORT_DIR}; over HTTP, a subdirectory name)` },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.export_data,
+      },
+      {
+        name: "import_food_history",
+        description:
+          "Import food history from a MyFitnessPal or Cronometer CSV export (or any CSV with a column mapping). Use dry_run first to preview rows, validation errors and duplicates.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            file_path: { type: "string", description: `Path to the CSV export (over HTTP, a file name in ${DEFAULT_EXPORT_DIR})` },
+            format: {
+              type: "string",
+              enum: HISTORY_FORMATS,
+              description:
+                "myfitnesspal: Nutrition export (meal totals); cronometer: Servings export; generic: this server's CSV export or a custom layout; auto: detect (default)",
+            },
+            column_map: {
+              type: "object",
+              description: `CSV column name per field (${IMPORT_FIELDS.join(", ")}), e.g. { "date": "Day", "food_name": "Item" }`,
+              additionalProperties: { type: "string" },
+            },
+            dry_run: { type: "boolean", description: "Validate and preview without importing (default: false)" },
+            skip_duplicates: {
+              type: "boolean",
+              description: "Skip rows matching an existing entry's date, meal, food and calories (default: true)",
+            },
+          },
+          required: ["file_path"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.import_food_history,
+      },
+      {
+        name: "backup_database",
+        description: "Take a timestamped backup of the database while the server is running.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            label: { type: "string", description: "Optional label appended to the file name" },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.backup_database,
+      },
+      {
+        name: "list_backups",
+        description: "List database backups, newest first.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: OUTPUT_SCHEMAS.list_backups,
+      },
+      {
+        name: "restore_backup",
+        description:
+          "Replace the database with a backup. The backup is verified first and the current database is backed up before it is replaced.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backup: { type: "string", description: "Backup file name from list_backups, or a path (not over HTTP)" },
+            confirm: { type: "boolean", description: "Must be true to replace the current database" },
+          },
+          required: ["backup", "confirm"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.restore_backup,
+      },
+      {
+        name: "check_database",
+        description: "Run SQLite's integrity check on the database.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: OUTPUT_SCHEMAS.check_database,
+      },
+      {
+        name: "list_profiles",
+        description: "List the profiles (people) kept in this food diary and show which one is active.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        outputSchema: OUTPUT_SCHEMAS.list_profiles,
+      },
+      {
+        name: "create_profile",
+        description: "Create a new profile with its own food log and goals.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Profile name" },
+            timezone: {
+              type: "string",
+              description: "IANA time zone, e.g. America/New_York (default: the server's)",
+            },
+          },
+          required: ["name"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.create_profile,
+      },
+      {
+        name: "set_timezone",
+        description:
+          "Set the time zone a profile's \"today\", date ranges and log timestamps are resolved in. " +
+          "Pass an empty string to use the server's time zone.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            timezone: { type: "string", description: "IANA time zone, e.g. Europe/Berlin" },
+          },
+          required: ["timezone"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.set_timezone,
+      },
+      {
+        name: "switch_profile",
+        description:
+          "Set the active profile for this session. Tools use it unless a call passes its own profile.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Profile name" },
+          },
+          required: ["name"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.switch_profile,
+      },
+      {
+        name: "create_custom_food",
+        description:
+          "Save a custom food that is not in the USDA database, with nutrition per serving.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the custom food" },
+            serving_size: { type: "number", description: "Amount of one serving" },
+            serving_unit: { type: "string", description: "Unit of one serving (g, cup, piece, etc.)" },
+            calories: { type: "number", description: "Calories per serving" },
+            protein_g: { type: "number", description: "Protein per serving (g)" },
+            carbs_g: { type: "number", description: "Carbs per serving (g)" },
+            fat_g: { type: "number", description: "Fat per serving (g)" },
+            fiber_g: { type: "number", description: "Fiber per serving (g)" },
+            nutrients: {
+              type: "object",
+              description: `Additional nutrients per serving, keyed by ${NUTRIENT_KEYS.join(", ")}`,
+              additionalProperties: { type: "number" },
+            },
+            notes: { type: "string", description: "Optional notes" },
+          },
+          required: ["name", "serving_size", "serving_unit", "calories"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.create_custom_food,
+      },
+      {
+        name: "create_recipe",
+        description:
+          "Save a recipe from ingredient lines (USDA FDC IDs or custom foods with amounts). " +
+          "Nutrition per serving is computed from the ingredients.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the recipe" },
+            servings: { type: "number", description: "Number of servings the recipe makes" },
+            ingredients: {
+              type: "array",
+              description: "Ingredient lines",
+              items: {
+                type: "object",
+                properties: {
+                  fdc_id: { type: "number", description: "USDA FDC ID" },
+                  custom_food_id: { type: "number", description: "Custom food ID" },
+                  amount: { type: "number", description: "Amount of the ingredient" },
+                  unit: { type: "string", description: "Unit (g, oz, cup, serving, etc.)" },
+                  density_g_per_ml: { type: "number", description: "Density for volume units" },
+                },
+                required: ["amount", "unit"],
+              },
+            },
+            notes: { type: "string", description: "Optional notes" },
+          },
+          required: ["name", "servings", "ingredients"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.create_recipe,
+      },
+      {
+        name: "log_recipe",
+        description: "Log one or more servings of a saved recipe as a single food log entry.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            recipe_id: { type: "number", description: "ID of the recipe" },
+            servings: { type: "number", description: "Servings eaten (default: 1)" },
+            meal: { type: "string", enum: ["breakfast", "lunch", "dinner", "snack"] },
+            date: { type: "string", description: "Date YYYY-MM-DD (default: today)" },
+            notes: { type: "string", description: "Optional notes" },
+          },
+          required: ["recipe_id"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.log_recipe,
+      },
+      {
+        name: "list_recent_foods",
+        description:
+          "List the foods you log most often or most recently, with the serving last logged, plus your starred " +
+          "favorites. Entry and favorite IDs can be passed to relog.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            sort: { type: "string", enum: ["frequent", "recent"], description: "Sort order (default: frequent)" },
+            days: { type: "number", description: "How many days back to look (default: 90)" },
+            limit: { type: "number", description: "Number of foods (default: 20)" },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.list_recent_foods,
+      },
+      {
+        name: "star_food",
+        description:
+          "Star the food and serving of a logged entry as a favorite. Starring a food with the same name again " +
+          "replaces its serving.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            entry_id: { type: "number", description: "ID of the logged entry" },
+          },
+          required: ["entry_id"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.star_food,
+      },
+      {
+        name: "unstar_food",
+        description: "Remove a food from your favorites.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            favorite_id: { type: "number", description: "ID of the favorite" },
+          },
+          required: ["favorite_id"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.unstar_food,
+      },
+      {
+        name: "save_meal_template",
+        description:
+          "Save foods eaten together as a named meal template, e.g. \"usual breakfast\", from a meal already " +
+          "logged on a date or from a list of entry IDs. Saving under an existing name replaces that template.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            name: { type: "string", description: "Template name" },
+            entry_ids: { type: "array", items: { type: "number" }, description: "Logged entries to save" },
+            date: { type: "string", description: "Date to take the meal from, YYYY-MM-DD (default: today)" },
+            meal: {
+              type: "string",
+              enum: ["breakfast", "lunch", "dinner", "snack"],
+              description: "Meal to save, and to log the template as",
+            },
+          },
+          required: ["name"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.save_meal_template,
+      },
+      {
+        name: "list_meal_templates",
+        description: "List your saved meal templates and their foods.",
+        inputSchema: {
+          type: "object",
+          properties: { profile: profileProperty },
+        },
+        outputSchema: OUTPUT_SCHEMAS.list_meal_templates,
+      },
+      {
+        name: "delete_meal_template",
+        description: "Delete a saved meal template.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            name: { type: "string", description: "Template name" },
+          },
+          required: ["name"],
+        },
+        outputSchema: OUTPUT_SCHEMAS.delete_meal_template,
+      },
+      {
+        name: "relog",
+        description:
+          "Log foods again in one step: a past entry, a favorite, a meal template, or everything logged on a " +
+          "date (e.g. from_date yesterday with from_meal lunch copies yesterday's lunch to today). Nutrition is " +
+          "copied from the source and all foods are logged as one undoable change.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            profile: profileProperty,
+            entry_id: { type: "number", description: "ID of a past entry" },
+            favorite_id: { type: "number", description: "ID of a favorite" },
+            template: { type: "string", description: "Name of a meal template" },
+            from_date: { type: "string", description: "Date to copy from, YYYY-MM-DD" },
+            from_meal: {
+              type: "string",
+              enum: ["breakfast", "lunch", "dinner", "snack"],
+              description: "Only copy this meal of from_date",
+            },
+            date: { type: "string", description: "Date to log on, YYYY-MM-DD (default: today)" },
+            meal: {
+              type: "string",
+              enum: ["breakfast", "lunch", "dinner", "snack"],
+              description: "Meal to log under (default: the source's meal)",
+            },
+            servings: { type: "number", description: "Multiply every serving by this (default: 1)" },
+          },
+        },
+        outputSchema: OUTPUT_SCHEMAS.relog,
+      },
+    ],
+  };
+}
+
+// Handle tool calls
+async function callTool(request: CallToolRequest, session: ClientSession) {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case "search_food": {
+        const input = SearchFoodSchema.parse(args);
+        const { query, limit, offset } = input;
+        const userId = resolveProfileId(args, session.profile);
+        const { foods: results, hasMore, truncated } = await usdaApi.searchFoods(query, {
+          limit,
+          offset,
+          dataTypes: input.data_types,
+          brand: input.brand,
+          nutrients: input.nutrients,
+          userId,
+        });
+
+        // Saved foods and recipes aren't USDA data, so they only accompany an unfiltered first page
+        const filtered = input.data_types || input.brand || input.nutrients?.length;
+        const customFoods = offset === 0 && !filtered ? searchCustomFoods(query, limit) : [];
+        const recipes = offset === 0 && !filtered ? searchRecipes(query, limit) : [];
+
+        const structuredContent = {
+          query,
+          offset,
+          has_more: hasMore,
+          truncated,
+          foods: results,
+          custom_foods: customFoods,
+          recipes,
+        };
+
+        if (results.length === 0 && customFoods.length === 0 && recipes.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No foods found matching "${query}". Try a different search term.`,
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        let text = "";
+
+        if (customFoods.length > 0 || recipes.length > 0) {
+          text += `### Your Foods & Recipes\n\n`;
+          for (const food of customFoods) {
+            text +=
+              `- **${food.name}** [Custom food ID: ${food.id}]\n` +
+              `  Per ${food.serving_size} ${food.serving_unit}: ${food.calories} cal | ` +
+              `P: ${food.protein_g ?? 0}g | C: ${food.carbs_g ?? 0}g | F: ${food.fat_g ?? 0}g\n`;
+          }
+          for (const recipe of recipes) {
+            text +=
+              `- **${recipe.name}** [Recipe ID: ${recipe.id}]\n` +
+              `  Per serving (makes ${recipe.servings}): ${recipe.calories} cal | ` +
+              `P: ${recipe.protein_g}g | C: ${recipe.carbs_g}g | F: ${recipe.fat_g}g\n`;
+          }
+          text += "\n";
+        }
+
+        if (results.length > 0) {
+          const formatted = results
+            .map(
+              (food, i) =>
+                `${offset + i + 1}. **${food.description}**${food.brandOwner ? ` (${food.brandOwner})` : ""}\n` +
+                `   FDC ID: ${food.fdcId} | Type: ${food.dataType}` +
+                `${food.timesLogged ? ` | Logged ${food.timesLogged}x before` : ""}\n` +
+                `   Per 100g: ${food.nutrition.calories} cal | ` +
+                `P: ${food.nutrition.protein_g}g | C: ${food.nutrition.carbs_g}g | F: ${food.nutrition.fat_g}g`
+            )
+            .join("\n\n");
+
+          text +=
+            `Found ${results.length} USDA foods matching "${query}":\n\n${formatted}\n\n` +
+            `*Nutrition values are per 100g. Scale accordingly when logging.*`;
+          if (results.some((food) => food.cached)) {
+            text += `\n*USDA API unavailable - showing results from the local dataset and cache.*`;
+          }
+          if (hasMore) {
+            text += `\n\nMore results: search again with offset ${offset + results.length}.`;
+          } else if (truncated) {
+            text +=
+              `\n\nOnly the top ${MAX_SEARCH_POOL} matches are ranked and more foods match. ` +
+              `Narrow the query or add filters to see others.`;
+          }
+        }
+
+        return { content: [{ type: "text", text: text.trim() }], structuredContent };
+      }
+
+      case "lookup_barcode": {
+        const { barcode: code } = LookupBarcodeSchema.parse(args);
+        const barcode = formatBarcode(normalizeBarcode(code));
+        const result = await usdaApi.lookupBarcode(code);
+
+        if (!result) {
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  `No branded food found for barcode ${barcode}.` +
+                  (USDA_API_KEY
+                    ? " Try search_food with the product name instead."
+                    : " Set USDA_API_KEY or import the USDA Branded Foods dataset to look up barcodes."),
+              },
+            ],
+            structuredContent: { barcode, food: null, serving: null, nutrition: null, nutrients: [], cached: false },
+          };
+        }
+
+        // Log by the label serving when there is one, otherwise per 100 g
+        const { food, cached } = result;
+        const [amount, unit] = usdaApi.toGrams(food, 1, "serving") !== null ? [1, "serving"] : [100, "g"];
+        const { grams, nutrition, nutrients } = await usdaApi.getServingNutrition(food.fdcId, amount, unit);
+        const serving = {
+          amount,
+          unit,
+          grams,
+          label: food.servingSize && food.servingSizeUnit
+            ? `${food.servingSize} ${normalizeUnit(food.servingSizeUnit)}`
+            : null,
+          household: food.householdServingFullText ?? null,
+        };
+
+        let text =
+          `**${food.description}**${food.brandOwner ? ` (${food.brandOwner})` : ""}\n` +
+          `Barcode: ${barcode} | FDC ID: ${food.fdcId}\n`;
+        if (serving.label) {
+          text += `Label serving: ${serving.label}${serving.household ? ` (${serving.household})` : ""}\n`;
+        }
+        text +=
+          `Per ${amount === 1 ? "serving" : "100g"}: ${nutrition.calories} cal | ` +
+          `P: ${nutrition.protein_g}g | C: ${nutrition.carbs_g}g | F: ${nutrition.fat_g}g | Fiber: ${nutrition.fiber_g}g\n\n` +
+          `Log it with log_food using fdc_id ${food.fdcId}, serving_size ${amount} and serving_unit "${unit}".`;
+        if (cached) {
+          text += `\n*From the local dataset and cache.*`;
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            barcode,
+            food: {
+              fdcId: food.fdcId,
+              description: food.description,
+              brandOwner: food.brandOwner ?? null,
+              gtinUpc: food.gtinUpc ?? null,
+              ingredients: food.ingredients ?? null,
+            },
+            serving,
+            nutrition,
+            nutrients,
+            cached,
+          },
+        };
+      }
+
+      case "log_food": {
+        const input = LogFoodSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const date = input.date || getToday(userId);
+
+        let foodName = input.food_name;
+        let nutrition: Pick<FoodLogEntry, "calories" | "protein_g" | "carbs_g" | "fat_g" | "fiber_g">;
+        let grams: number | null = null;
+        let nutrients: NutrientAmount[] = [];
+
+        if (input.calories !== undefined) {
+          nutrition = {
+            calories: input.calories,
+            protein_g: input.protein_g ?? null,
+            carbs_g: input.carbs_g ?? null,
+            fat_g: input.fat_g ?? null,
+            fiber_g: input.fiber_g ?? null,
+          };
+          nutrients = toNutrientAmounts(input.nutrients);
+        } else if (input.fdc_id) {
+          // Let the server fetch and scale USDA nutrition for the portion
+          const serving = await usdaApi.getServingNutrition(
+            input.fdc_id,
+            input.serving_size,
+            input.serving_unit,
+            input.density_g_per_ml
+          );
+          nutrition = serving.nutrition;
+          nutrients = serving.nutrients;
+          grams = serving.grams;
+          foodName = foodName || serving.food.description;
+        } else if (input.custom_food_id) {
+          const food = getCustomFood(input.custom_food_id);
+          if (!food) {
+            throw new Error(`Custom food ${input.custom_food_id} not found`);
+          }
+          nutrition = scaleCustomFood(food, input.serving_size, input.serving_unit);
+          nutrients = scaleCustomFoodNutrients(food, input.serving_size, input.serving_unit);
+          foodName = foodName || food.name;
+        } else {
+          throw new Error("Provide either calories (and macros), an fdc_id or a custom_food_id to look up");
+        }
+
+        if (!foodName) {
+          throw new Error("food_name is required when not logging by fdc_id or custom_food_id");
+        }
+
+        const entry = logFood({
+          user_id: userId,
+          date,
+          meal: input.meal || null,
+          food_name: foodName,
+          fdc_id: input.fdc_id || null,
+          serving_size: input.serving_size,
+          serving_unit: normalizeUnit(input.serving_unit),
+          calories: nutrition.calories,
+          protein_g: nutrition.protein_g,
+          carbs_g: nutrition.carbs_g,
+          fat_g: nutrition.fat_g,
+          fiber_g: nutrition.fiber_g,
+          notes: input.notes || null,
+        }, nutrients);
+
+        // Get updated daily totals
+        const dailyEntries = getDailyLog(userId, date);
+        const totals = calculateTotals(dailyEntries);
+        const goals = getGoalsForDate(userId, date);
+
+        let response = `Logged: **${entry.food_name}** (${entry.serving_size} ${entry.serving_unit}`;
+        if (grams !== null && entry.serving_unit !== "g") {
+          response += ` = ${grams}g`;
+        }
+        response += `)\n${entry.calories} cal`;
+        if (entry.protein_g) response += ` | P: ${entry.protein_g}g`;
+        if (entry.carbs_g) response += ` | C: ${entry.carbs_g}g`;
+        if (entry.fat_g) response += ` | F: ${entry.fat_g}g`;
+        if (entry.meal) response += `\nMeal: ${entry.meal}`;
+        response += `\n\n**Daily Total (${date}):** ${totals.calories} cal`;
+
+        if (goals?.daily_calories) {
+          const remaining = goals.daily_calories - totals.calories;
+          response += ` | ${remaining > 0 ? remaining + " remaining" : Math.abs(remaining) + " over goal"}`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { entry, grams, daily_totals: totals, goals },
+        };
+      }
+
+      case "log_meal_text": {
+        const input = LogMealTextSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const date = input.date || getToday(userId);
+        const { items, totals, logged } = await logMealText(usdaApi, input.text, {
+          userId,
+          date,
+          meal: input.meal || null,
+          dryRun: input.dry_run,
+          minConfidence: input.min_confidence,
+        });
+
+        const needsAttention = items.filter(
+          (item) => !item.entry || (item.match?.confidence ?? 0) < input.min_confidence
+        );
+        let response = logged.length > 0 ? `## Logged for ${date}` : `## Meal Preview for ${date}`;
+        response += input.meal ? ` (${input.meal})\n\n` : "\n\n";
+
+        items.forEach((item, i) => {
+          response += `${i + 1}. "${item.text}"`;
+          if (item.entry && item.match) {
+            response +=
+              ` → **${item.match.name}** (${item.entry.serving_size} ${item.entry.serving_unit}) ` +
+              `${item.entry.calories} cal | P: ${item.entry.protein_g ?? 0}g | C: ${item.entry.carbs_g ?? 0}g | ` +
+              `F: ${item.entry.fat_g ?? 0}g - confidence ${item.match.confidence}`;
+            if (logged[i]) response += ` [ID: ${logged[i].id}]`;
+            if (item.match.confidence < input.min_confidence) response += ` ⚠ low confidence`;
+          } else {
+            response += ` ⚠ ${item.error}`;
+          }
+          response += "\n";
+        });
+        response +=
+          `\n**Total:** ${totals.calories} cal | P: ${totals.protein_g}g | C: ${totals.carbs_g}g | ` +
+          `F: ${totals.fat_g}g\n\n`;
+
+        if (logged.length > 0) {
+          const count = logged.length === 1 ? "1 entry" : `${logged.length} entries`;
+          response += `Logged ${count} as one change; undo_last_change removes them all.`;
+        } else if (needsAttention.length > 0) {
+          response +=
+            `Nothing was logged: ${needsAttention.length} of ${items.length} items need attention. ` +
+            `Rephrase them, confirm by lowering min_confidence, or log them one by one with log_food.`;
+        } else {
+          response += `Run again without dry_run to log these.`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: {
+            text: input.text,
+            date,
+            dry_run: input.dry_run,
+            logged,
+            items: items.map(({ nutrients, ...item }) => item),
+            totals,
+          },
+        };
+      }
+
+      case "get_daily_log": {
+        const { date, all_nutrients } = GetDailyLogSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const targetDate = date || getToday(userId);
+        const summary: DailySummary = getDailySummary(userId, targetDate);
+        const { entries, goals, totals } = summary;
+
+        if (entries.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No food entries for ${targetDate}. Start logging with the log_food tool!`,
+              },
+            ],
+            structuredContent: { ...summary },
+          };
+        }
+
+        // Group by meal
+        const byMeal: Record<string, typeof entries> = {};
+        for (const entry of entries) {
+          const meal = entry.meal || "unspecified";
+          if (!byMeal[meal]) byMeal[meal] = [];
+          byMeal[meal].push(entry);
+        }
+
+        let response = `## Food Log for ${targetDate}\n\n`;
+
+        for (const [meal, mealEntries] of Object.entries(byMeal)) {
+          response += `### ${meal.charAt(0).toUpperCase() + meal.slice(1)}\n`;
+          for (const entry of mealEntries) {
+            const grams = convertAmount(entry.serving_size, entry.serving_unit, "g");
+            response += `- **${entry.food_name}** (${entry.serving_size} ${entry.serving_unit}`;
+            if (grams !== null && entry.serving_unit !== "g") response += ` ≈ ${Math.round(grams)}g`;
+            response += `) - `;
+            response += `${entry.calories} cal`;
+            if (entry.protein_g) response += ` | P: ${entry.protein_g}g`;
+            response += ` [ID: ${entry.id}]\n`;
+          }
+          response += "\n";
+        }
+
+        response += goals?.template ? `### Daily Totals (${goals.template} goals)\n` : `### Daily Totals\n`;
+        response += `- Calories: ${totals.calories}`;
+        if (goals?.daily_calories) {
+          const pct = Math.round((totals.calories / goals.daily_calories) * 100);
+          response += ` / ${goals.daily_calories} (${pct}%)`;
+        }
+        response += `\n- Protein: ${totals.protein_g}g`;
+        if (goals?.protein_g) response += ` / ${goals.protein_g}g`;
+        response += `\n- Carbs: ${totals.carbs_g}g`;
+        if (goals?.carbs_g) response += ` / ${goals.carbs_g}g`;
+        response += `\n- Fat: ${totals.fat_g}g`;
+        if (goals?.fat_g) response += ` / ${goals.fat_g}g`;
+        response += `\n- Fiber: ${totals.fiber_g}g`;
+
+        const nutrientGoals = getNutrientGoals(userId);
+        const micronutrients = selectNutrientTotals(summary.nutrients, nutrientGoals, all_nutrients);
+        if (micronutrients.length > 0) {
+          response += `\n\n### Micronutrients\n`;
+          for (const n of micronutrients) {
+            const goal = nutrientGoals.find((g) => g.nutrient_id === n.nutrient_id);
+            response += `- ${formatNutrientLine(n.name, n.unit, n.amount, goal)}\n`;
+          }
+        }
+
+        return { content: [{ type: "text", text: response.trimEnd() }], structuredContent: { ...summary } };
+      }
+
+      case "set_goals": {
+        const input = SetGoalsSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+
+        const formatNutrientGoals = () =>
+          getNutrientGoals(userId)
+            .map((g) => {
+              const parts: string[] = [];
+              if (g.min_amount !== null) parts.push(`at least ${g.min_amount}${g.unit}`);
+              if (g.max_amount !== null) parts.push(`at most ${g.max_amount}${g.unit}`);
+              return `\n- ${g.name}: ${parts.join(", ")}`;
+            })
+            .join("");
+
+        if (
+          !input.daily_calories &&
+          !input.protein_g &&
+          !input.carbs_g &&
+          !input.fat_g &&
+          !input.macro_split &&
+          !input.nutrient_goals?.length
+        ) {
+          const current = getGoals(userId, input.effective_from || getToday(userId));
+          return {
+            content: [
+              {
+                type: "text",
+                text: `**Current Goals** (since ${formatEffectiveFrom(current?.effective_from)}):\n` +
+                  `- Calories: ${current?.daily_calories || "not set"}\n` +
+                  `- Protein: ${current?.protein_g || "not set"}g\n` +
+                  `- Carbs: ${current?.carbs_g || "not set"}g\n` +
+                  `- Fat: ${current?.fat_g || "not set"}g` +
+                  formatNutrientGoals(),
+              },
+            ],
+            structuredContent: { updated: false, goals: current, nutrient_goals: getNutrientGoals(userId) },
+          };
+        }
+
+        for (const goal of input.nutrient_goals ?? []) {
+          const nutrient = findNutrient(goal.nutrient);
+          if (!nutrient) {
+            throw new Error(`Unknown nutrient "${goal.nutrient}". Use one of: ${NUTRIENT_KEYS.join(", ")}`);
+          }
+          setNutrientGoal(
+            userId,
+            { nutrient_id: nutrient.id, name: nutrient.name, unit: nutrient.unit },
+            goal.min ?? null,
+            goal.max ?? null
+          );
+        }
+
+        const { nutrient_goals: _, macro_split, effective_from, ...macroGoals } = input;
+        const effectiveFrom = effective_from || getToday(userId);
+
+        // A macro split is converted using the new calorie goal, or the one
+        // already in force; explicit gram goals take precedence
+        if (macro_split) {
+          const calories = macroGoals.daily_calories ?? getGoals(userId, effectiveFrom)?.daily_calories;
+          if (!calories) {
+            throw new Error("Set daily_calories to convert a macro split into grams");
+          }
+          const grams = macroSplitToGrams(calories, macro_split);
+          macroGoals.protein_g ??= grams.protein_g;
+          macroGoals.carbs_g ??= grams.carbs_g;
+          macroGoals.fat_g ??= grams.fat_g;
+        }
+        const hasMacroGoals = Object.values(macroGoals).some((v) => v !== undefined);
+        const updated = hasMacroGoals
+          ? updateGoals(userId, macroGoals, effectiveFrom)
+          : getGoals(userId, effectiveFrom)!;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Goals Updated** (effective from ${formatEffectiveFrom(updated.effective_from)}):\n` +
+                `- Calories: ${updated.daily_calories}\n` +
+                `- Protein: ${updated.protein_g}g\n` +
+                `- Carbs: ${updated.carbs_g}g\n` +
+                `- Fat: ${updated.fat_g}g` +
+                formatNutrientGoals(),
+            },
+          ],
+          structuredContent: { updated: true, goals: updated, nutrient_goals: getNutrientGoals(userId) },
+        };
+      }
+
+      case "calculate_tdee": {
+        const input = CalculateTdeeSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const toKg = (value: number) => convertAmount(value, input.weight_unit, "kg")!;
+        const heightCm = input.height_cm ?? input.height_in! * 2.54;
+
+        const estimate = estimateEnergy(
+          { sex: input.sex, age: input.age, height_cm: heightCm, weight_kg: toKg(input.weight) },
+          input.activity_level,
+          toKg(input.weekly_change)
+        );
+        const macros = input.macro_split
+          ? macroSplitToGrams(estimate.target_calories, input.macro_split)
+          : null;
+
+        let response = `## Energy Estimate\n\n`;
+        response += `- BMR (Mifflin-St Jeor): ${estimate.bmr} cal\n`;
+        response += `- Maintenance (TDEE, ${input.activity_level}): ${estimate.tdee} cal\n`;
+        if (input.weekly_change !== 0) {
+          const direction = input.weekly_change < 0 ? "lose" : "gain";
+          response += `- To ${direction} ${Math.abs(input.weekly_change)} ${input.weight_unit}/week: `;
+          response += `${estimate.daily_adjustment > 0 ? "+" : ""}${estimate.daily_adjustment} cal/day\n`;
+        }
+        response += `\n**Proposed daily target:** ${estimate.target_calories} cal`;
+        if (macros) {
+          response += `\n- Protein: ${macros.protein_g}g (${input.macro_split!.protein}%)`;
+          response += `\n- Carbs: ${macros.carbs_g}g (${input.macro_split!.carbs}%)`;
+          response += `\n- Fat: ${macros.fat_g}g (${input.macro_split!.fat}%)`;
+        }
+        if (estimate.warning) {
+          response += `\n\n⚠️ ${estimate.warning}`;
+        }
+
+        let savedGoals: Goals | null = null;
+        if (input.save) {
+          savedGoals = updateGoals(
+            userId,
+            { daily_calories: estimate.target_calories, ...(macros ?? {}) },
+            input.effective_from || getToday(userId)
+          );
+          response += `\n\nSaved as your goals effective from ${formatEffectiveFrom(savedGoals.effective_from)}.`;
+        } else {
+          response += `\n\nCall again with save: true to use these as your goals.`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { ...estimate, macros, saved_goals: savedGoals },
+        };
+      }
+
+      case "get_goal_history": {
+        GoalHistorySchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const history = getGoalHistory(userId);
+
+        let response = `## Goal History\n\n`;
+        history.forEach((g, i) => {
+          const until = history[i + 1]?.effective_from;
+          response += `- **${formatEffectiveFrom(g.effective_from)}${until ? ` to ${until}` : " onward"}**: `;
+          response += `${g.daily_calories ?? "-"} cal | P: ${g.protein_g ?? "-"}g | `;
+          response += `C: ${g.carbs_g ?? "-"}g | F: ${g.fat_g ?? "-"}g\n`;
+        });
+
+        return { content: [{ type: "text", text: response.trimEnd() }], structuredContent: { goals: history } };
+      }
+
+      case "save_goal_template": {
+        const input = SaveGoalTemplateSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const template = saveGoalTemplate(userId, {
+          name: input.name,
+          daily_calories: input.daily_calories ?? null,
+          protein_g: input.protein_g ?? null,
+          carbs_g: input.carbs_g ?? null,
+          fat_g: input.fat_g ?? null,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `**Goal Template Saved: ${template.name}**\n` +
+                `- Calories: ${template.daily_calories ?? "regular goal"}\n` +
+                `- Protein: ${template.protein_g !== null ? `${template.protein_g}g` : "regular goal"}\n` +
+                `- Carbs: ${template.carbs_g !== null ? `${template.carbs_g}g` : "regular goal"}\n` +
+                `- Fat: ${template.fat_g !== null ? `${template.fat_g}g` : "regular goal"}\n\n` +
+                `Apply it with set_goal_schedule.`,
+            },
+          ],
+          structuredContent: { template },
+        };
+      }
+
+      case "set_goal_schedule": {
+        const input = SetGoalScheduleSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+
+        // Resolve template names up front so a bad name changes nothing
+        const resolveTemplate = (name: string | null) => {
+          if (!name) return null;
+          const template = getGoalTemplate(userId, name);
+          if (!template) {
+            const names = getGoalTemplates(userId).map((t) => t.name).join(", ") || "none yet";
+            throw new Error(`Goal template "${name}" not found. Available templates: ${names}`);
+          }
+          return template.id;
+        };
+
+        const weekdayUpdates = Object.entries(input.weekdays ?? {}).map(([day, name]) => {
+          const weekday = WEEKDAYS.findIndex((d) => d === day.toLowerCase() || d.slice(0, 3) === day.toLowerCase());
+          if (weekday === -1) {
+            throw new Error(`Unknown weekday "${day}". Use one of: ${WEEKDAYS.join(", ")}`);
+          }
+          return { weekday, templateId: resolveTemplate(name) };
+        });
+        const dateUpdates = Object.entries(input.dates ?? {}).map(([date, name]) => {
+          if (!isValidDate(date)) {
+            throw new Error(`Invalid date "${date}". Use YYYY-MM-DD`);
+          }
+          return { date, templateId: resolveTemplate(name) };
+        });
+
+        if (weekdayUpdates.length === 0 && dateUpdates.length === 0) {
+          throw new Error("Provide weekdays and/or dates to schedule");
+        }
+
+        for (const { weekday, templateId } of weekdayUpdates) {
+          setWeekdayTemplate(userId, weekday, templateId);
+        }
+        for (const { date, templateId } of dateUpdates) {
+          setDateTemplate(userId, date, templateId);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Goal schedule updated (${weekdayUpdates.length} weekday(s), ${dateUpdates.length} date(s)). ` +
+                `Use get_goal_schedule to review it.`,
+            },
+          ],
+          structuredContent: { schedule: getGoalSchedule(userId, getToday(userId)) },
+        };
+      }
+
+      case "get_goal_schedule": {
+        GetGoalScheduleSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const templates = getGoalTemplates(userId);
+        const schedule = getGoalSchedule(userId, getToday(userId));
+
+        if (templates.length === 0) {
+          return {
             content: [
               {
                 type: "text",
-                text: `No food entries for ${targetDate}. Start logging with the log_food tool!`,
+                text: "No goal templates yet. Create one with save_goal_template.",
               },
             ],
+            structuredContent: { templates, schedule },
           };
         }
 
-        const totals = calculateTotals(entries);
+        let response = `## Goal Templates\n\n`;
+        for (const t of templates) {
+          response += `- **${t.name}**: ${t.daily_calories ?? "-"} cal | P: ${t.protein_g ?? "-"}g | `;
+          response += `C: ${t.carbs_g ?? "-"}g | F: ${t.fat_g ?? "-"}g\n`;
+        }
 
-        // Group by meal
-        const byMeal: Record<string, typeof entries> = {};
+        response += `\n### Weekly Schedule\n`;
+        for (const [weekday, day] of WEEKDAYS.entries()) {
+          const entry = schedule.weekdays.find((w) => w.weekday === weekday);
+          response += `- ${day.charAt(0).toUpperCase() + day.slice(1)}: ${entry?.template ?? "regular goals"}\n`;
+        }
+
+        if (schedule.dates.length > 0) {
+          response += `\n### Tagged Dates\n`;
+          for (const d of schedule.dates) {
+            response += `- ${d.date}: ${d.template}\n`;
+          }
+        }
+
+        return { content: [{ type: "text", text: response.trimEnd() }], structuredContent: { templates, schedule } };
+      }
+
+      case "get_summary": {
+        const input = GetSummarySchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+
+        let startDate: string;
+        let endDate: string;
+
+        const today = getToday(userId);
+        if (input.period === "month") {
+          startDate = shiftMonths(today, -1);
+          endDate = today;
+        } else if (input.period !== "week" && input.start_date && input.end_date) {
+          startDate = input.start_date;
+          endDate = input.end_date;
+        } else {
+          // A week, and the default: the last 7 days
+          startDate = shiftDate(today, -7);
+          endDate = today;
+        }
+
+        const entries = getLogsByDateRange(userId, startDate, endDate);
+
+        if (entries.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No food entries found between ${startDate} and ${endDate}.`,
+              },
+            ],
+            structuredContent: {
+              start_date: startDate,
+              end_date: endDate,
+              days_tracked: 0,
+              entry_count: 0,
+              averages: calculateTotals([]),
+              average_goals: { daily_calories: null, protein_g: null, carbs_g: null, fat_g: null },
+              goals_changed: false,
+              nutrient_averages: [],
+              days: [],
+            },
+          };
+        }
+
+        // Group by date
+        const byDate: Record<string, typeof entries> = {};
         for (const entry of entries) {
-          const meal = entry.meal || "unspecified";
-          if (!byMeal[meal]) byMeal[meal] = [];
-          byMeal[meal].push(entry);
+          if (!byDate[entry.date]) byDate[entry.date] = [];
+          byDate[entry.date].push(entry);
         }
 
-        let response = `## Food Log for ${targetDate}\n\n`;
+        // Each day is compared against the goals in force on that day
+        const dailyTotals = Object.entries(byDate).map(([date, dayEntries]) => ({
+          date,
+          goals: getGoalsForDate(userId, date),
+          ...calculateTotals(dayEntries),
+        }));
 
-        for (const [meal, mealEntries] of Object.entries(byMeal)) {
-          response += `### ${meal.charAt(0).toUpperCase() + meal.slice(1)}\n`;
-          for (const entry of mealEntries) {
-            response += `- **${entry.food_name}** (${entry.serving_size} ${entry.serving_unit}) - `;
-            response += `${entry.calories} cal`;
-            if (entry.protein_g) response += ` | P: ${entry.protein_g}g`;
-            response += ` [ID: ${entry.id}]\n`;
+        const numDays = dailyTotals.length;
+        const avgCalories = Math.round(
+          dailyTotals.reduce((sum, d) => sum + d.calories, 0) / numDays
+        );
+        const avgProtein = Math.round(
+          (dailyTotals.reduce((sum, d) => sum + d.protein_g, 0) / numDays) * 10
+        ) / 10;
+        const avgCarbs = Math.round(
+          (dailyTotals.reduce((sum, d) => sum + d.carbs_g, 0) / numDays) * 10
+        ) / 10;
+        const avgFat = Math.round(
+          (dailyTotals.reduce((sum, d) => sum + d.fat_g, 0) / numDays) * 10
+        ) / 10;
+
+        // Average of each tracked day's goal, so ranges spanning a goal change compare fairly
+        const avgGoal = (field: "daily_calories" | "protein_g" | "carbs_g" | "fat_g") => {
+          const values = dailyTotals
+            .map((d) => d.goals?.[field])
+            .filter((v): v is number => typeof v === "number" && v > 0);
+          if (values.length === 0) return null;
+          return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+        };
+        const goals = {
+          daily_calories: avgGoal("daily_calories"),
+          protein_g: avgGoal("protein_g"),
+          carbs_g: avgGoal("carbs_g"),
+          fat_g: avgGoal("fat_g"),
+        };
+        const goalsChanged =
+          new Set(
+            dailyTotals.map((d) =>
+              [d.goals?.daily_calories, d.goals?.protein_g, d.goals?.carbs_g, d.goals?.fat_g].join("/")
+            )
+          ).size > 1;
+
+        let response = `## Nutrition Summary: ${startDate} to ${endDate}\n\n`;
+        response += `**${numDays} days tracked** | ${entries.length} total entries\n\n`;
+
+        response += `### Daily Averages\n`;
+        response += `- Calories: ${avgCalories}`;
+        if (goals.daily_calories) {
+          const pct = Math.round((avgCalories / goals.daily_calories) * 100);
+          response += ` (${pct}% of ${goals.daily_calories} goal)`;
+        }
+        response += `\n- Protein: ${avgProtein}g`;
+        if (goals.protein_g) response += ` / ${goals.protein_g}g goal`;
+        response += `\n- Carbs: ${avgCarbs}g`;
+        if (goals.carbs_g) response += ` / ${goals.carbs_g}g goal`;
+        response += `\n- Fat: ${avgFat}g`;
+        if (goals.fat_g) response += ` / ${goals.fat_g}g goal`;
+        if (goalsChanged) {
+          response += `\n\n*Goals changed during this period; averages are compared against the mean of each day's goals.*`;
+        }
+
+        const nutrientGoals = getNutrientGoals(userId);
+        const nutrientTotals = getNutrientTotals(userId, startDate, endDate);
+        const micronutrients = selectNutrientTotals(nutrientTotals, nutrientGoals);
+        if (micronutrients.length > 0) {
+          response += `\n\n### Micronutrient Daily Averages\n`;
+          for (const n of micronutrients) {
+            const goal = nutrientGoals.find((g) => g.nutrient_id === n.nutrient_id);
+            response += `- ${formatNutrientLine(n.name, n.unit, n.amount / numDays, goal)}\n`;
           }
+          response = response.trimEnd();
+        }
+
+        response += `\n\n### Daily Breakdown\n`;
+        for (const day of dailyTotals) {
+          response += `- ${day.date}: ${day.calories} cal`;
+          if (day.goals?.daily_calories) {
+            response += ` (${Math.round((day.calories / day.goals.daily_calories) * 100)}%)`;
+          }
+          response += ` | P: ${day.protein_g}g | C: ${day.carbs_g}g | F: ${day.fat_g}g`;
+          if (day.goals?.template) response += ` [${day.goals.template}]`;
           response += "\n";
         }
 
-        response += `### Daily Totals\n`;
-        response += `- Calories: ${totals.calories}`;
-        if (goals?.daily_calories) {
-          const pct = Math.round((totals.calories / goals.daily_calories) * 100);
-          response += ` / ${goals.daily_calories} (${pct}%)`;
+        const round = (value: number) => Math.round(value * 10) / 10;
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: {
+            start_date: startDate,
+            end_date: endDate,
+            days_tracked: numDays,
+            entry_count: entries.length,
+            averages: {
+              calories: avgCalories,
+              protein_g: avgProtein,
+              carbs_g: avgCarbs,
+              fat_g: avgFat,
+              fiber_g: round(dailyTotals.reduce((sum, d) => sum + d.fiber_g, 0) / numDays),
+            },
+            average_goals: goals,
+            goals_changed: goalsChanged,
+            nutrient_averages: nutrientTotals.map((n) => ({ ...n, amount: round(n.amount / numDays) })),
+            days: dailyTotals.map(({ date, goals, ...totals }) => ({
+              date,
+              goals,
+              totals: {
+                calories: Math.round(totals.calories),
+                protein_g: round(totals.protein_g),
+                carbs_g: round(totals.carbs_g),
+                fat_g: round(totals.fat_g),
+                fiber_g: round(totals.fiber_g),
+              },
+            })),
+          },
+        };
+      }
+
+      case "delete_entry": {
+        const { entry_id } = DeleteEntrySchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const deleted = deleteEntry(userId, entry_id);
+
+        if (deleted) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Entry ${entry_id} deleted successfully. Use restore_entry to bring it back.`,
+              },
+            ],
+            structuredContent: { entry_id, deleted },
+          };
+        } else {
+          return {
+            content: [{ type: "text", text: `Entry ${entry_id} not found.` }],
+            structuredContent: { entry_id, deleted },
+          };
+        }
+      }
+
+      case "update_entry": {
+        const { entry_id, ...input } = UpdateEntrySchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const existing = getEntry(userId, entry_id);
+        if (!existing) {
+          return {
+            content: [{ type: "text", text: `Entry ${entry_id} not found.` }],
+            structuredContent: { entry_id, entry: null, nutrient_scale: null },
+          };
+        }
+
+        const patch: Partial<Omit<FoodLogEntry, "id" | "user_id" | "logged_at" | "deleted_at">> = {
+          ...input,
+          serving_unit: input.serving_unit !== undefined ? normalizeUnit(input.serving_unit) : undefined,
+          notes: input.notes !== undefined ? input.notes || null : undefined,
+        };
+
+        const servingChanged = input.serving_size !== undefined || input.serving_unit !== undefined;
+        const nutrientsGiven = [input.calories, input.protein_g, input.carbs_g, input.fat_g, input.fiber_g]
+          .some((v) => v !== undefined);
+        let scale: number | null = null;
+
+        if (servingChanged && !nutrientsGiven && existing.fdc_id) {
+          const newSize = input.serving_size ?? existing.serving_size;
+          const newUnit = input.serving_unit ?? existing.serving_unit;
+
+          // Same-kind units convert directly; otherwise go through the food's gram weights
+          let oldAmount = convertAmount(existing.serving_size, existing.serving_unit, newUnit);
+          if (oldAmount === null) {
+            const food = await usdaApi.getFoodDetails(existing.fdc_id);
+            const oldGrams = food && usdaApi.toGrams(food, existing.serving_size, existing.serving_unit);
+            const newGrams = food && usdaApi.toGrams(food, 1, newUnit);
+            if (!oldGrams || !newGrams) {
+              throw new Error(
+                `Cannot convert ${existing.serving_unit} to ${newUnit} for ${existing.food_name}; ` +
+                  "provide the new nutrient values instead"
+              );
+            }
+            oldAmount = oldGrams / newGrams;
+          }
+
+          const factor = newSize / oldAmount;
+          const scaleMacro = (value: number | null) =>
+            value === null ? null : Math.round(value * factor * 10) / 10;
+          patch.calories = Math.round(existing.calories * factor);
+          patch.protein_g = scaleMacro(existing.protein_g);
+          patch.carbs_g = scaleMacro(existing.carbs_g);
+          patch.fat_g = scaleMacro(existing.fat_g);
+          patch.fiber_g = scaleMacro(existing.fiber_g);
+          scale = factor;
+        }
+
+        const entry = updateEntry(userId, entry_id, patch, scale ?? 1)!;
+
+        let response = `Updated entry ${entry.id}: **${entry.food_name}** (${entry.serving_size} ${entry.serving_unit})\n`;
+        response += `${entry.calories} cal`;
+        if (entry.protein_g) response += ` | P: ${entry.protein_g}g`;
+        if (entry.carbs_g) response += ` | C: ${entry.carbs_g}g`;
+        if (entry.fat_g) response += ` | F: ${entry.fat_g}g`;
+        if (entry.meal) response += `\nMeal: ${entry.meal}`;
+        response += `\nDate: ${entry.date}`;
+        if (scale !== null) {
+          response += `\n\n*Nutrients rescaled from ${existing.serving_size} ${existing.serving_unit} (${existing.calories} cal).*`;
+        } else if (servingChanged && !nutrientsGiven) {
+          response += `\n\n*Nutrients were not changed; pass new values if the serving change affects them.*`;
         }
-        response += `\n- Protein: ${totals.protein_g}g`;
-        if (goals?.protein_g) response += ` / ${goals.protein_g}g`;
-        response += `\n- Carbs: ${totals.carbs_g}g`;
-        if (goals?.carbs_g) response += ` / ${goals.carbs_g}g`;
-        response += `\n- Fat: ${totals.fat_g}g`;
-        if (goals?.fat_g) response += ` / ${goals.fat_g}g`;
-        response += `\n- Fiber: ${totals.fiber_g}g`;
 
-        return { content: [{ type: "text", text: response }] };
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { entry_id, entry, nutrient_scale: scale },
+        };
       }
 
-      case "set_goals": {
-        const input = SetGoalsSchema.parse(args);
+      case "restore_entry": {
+        const { entry_id } = RestoreEntrySchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const entry = restoreEntry(userId, entry_id);
+
+        if (!entry) {
+          return {
+            content: [{ type: "text", text: `No deleted entry with ID ${entry_id}.` }],
+            structuredContent: { entry_id, entry },
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Restored entry ${entry.id}: **${entry.food_name}** (${entry.calories} cal) on ${entry.date}.`,
+            },
+          ],
+          structuredContent: { entry_id, entry },
+        };
+      }
+
+      case "undo_last_change": {
+        const userId = resolveProfileId(args, session.profile);
+        const records = undoLastChange(userId);
+
+        if (records.length === 0) {
+          return {
+            content: [{ type: "text", text: "Nothing to undo." }],
+            structuredContent: { undone: records },
+          };
+        }
+
+        const describe = (record: AuditRecord) => {
+          const snapshot = JSON.parse((record.action === "insert" ? record.after : record.before)!);
+          if (record.table_name === "goal_versions") {
+            const verb = record.action === "insert" ? "Removed" : "Restored";
+            return `${verb} goals effective ${snapshot.effective_from} (${snapshot.daily_calories ?? "no"} cal)`;
+          }
+          const label = `entry ${record.row_id}: ${snapshot.food_name} on ${snapshot.date}`;
+          switch (record.action) {
+            case "insert":
+              return `Removed logged ${label}`;
+            case "update":
+              return `Reverted edit to ${label}`;
+            case "delete":
+              return `Restored deleted ${label}`;
+            case "restore":
+              return `Deleted again ${label}`;
+          }
+        };
+
+        let response = `Undid change from ${records[0].created_at}:\n`;
+        const shown = records.slice(0, 20);
+        for (const record of shown) {
+          response += `- ${describe(record)}\n`;
+        }
+        if (records.length > shown.length) {
+          response += `- ...and ${records.length - shown.length} more\n`;
+        }
+        return { content: [{ type: "text", text: response }], structuredContent: { undone: records } };
+      }
+
+      case "log_body_metrics": {
+        const input = LogBodyMetricsSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const date = input.date || getToday(userId);
+
+        const metric = logBodyMetric(userId, date, {
+          weight_kg:
+            input.weight !== undefined ? convertAmount(input.weight, input.weight_unit, "kg") : undefined,
+          body_fat_pct: input.body_fat_pct,
+          waist_cm:
+            input.waist !== undefined ? (input.waist_unit === "in" ? input.waist * 2.54 : input.waist) : undefined,
+          notes: input.notes,
+        });
+
+        const weight = (kg: number) =>
+          `${Math.round(convertAmount(kg, "kg", input.weight_unit)! * 10) / 10} ${input.weight_unit}`;
+        const waist = (cm: number) =>
+          input.waist_unit === "in" ? `${Math.round((cm / 2.54) * 10) / 10} in` : `${Math.round(cm * 10) / 10} cm`;
+
+        let response = `Logged body metrics for ${date}:`;
+        if (metric.weight_kg !== null) response += `\n- Weight: ${weight(metric.weight_kg)}`;
+        if (metric.body_fat_pct !== null) response += `\n- Body fat: ${metric.body_fat_pct}%`;
+        if (metric.waist_cm !== null) response += `\n- Waist: ${waist(metric.waist_cm)}`;
+
+        return { content: [{ type: "text", text: response }], structuredContent: { metric } };
+      }
+
+      case "get_weight_trend": {
+        const input = GetWeightTrendSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const endDate = input.end_date || getToday(userId);
+        const startDate = input.start_date || shiftDate(endDate, -(input.days - 1));
+
+        const metrics = getBodyMetrics(userId, startDate, endDate);
+        const analysis = analyzeWeight(metrics);
+
+        if (analysis.points.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No weigh-ins between ${startDate} and ${endDate}. Log one with the log_body_metrics tool!`,
+              },
+            ],
+            structuredContent: { start_date: startDate, end_date: endDate, analysis, expenditure: null, metrics },
+          };
+        }
+
+        const unit = input.weight_unit;
+        const weight = (kg: number) => Math.round(convertAmount(kg, "kg", unit)! * 10) / 10;
+        const first = analysis.points[0];
+        const latest = analysis.points[analysis.points.length - 1];
+
+        let response = `## Weight Trend: ${startDate} to ${endDate}\n\n`;
+        response += `- Latest weigh-in: ${weight(latest.weight_kg)} ${unit} (${latest.date})\n`;
+        response += `- Trend weight: ${weight(latest.trend_kg)} ${unit}\n`;
+        response += `- 7-day average: ${weight(latest.average_kg)} ${unit}\n`;
+        response += `- Trend change: ${weight(latest.trend_kg - first.trend_kg) > 0 ? "+" : ""}`;
+        response += `${weight(latest.trend_kg - first.trend_kg)} ${unit} over ${analysis.span_days} days\n`;
+
+        const expenditure =
+          analysis.weekly_rate_kg !== null
+            ? estimateExpenditure(analysis, getLogsByDateRange(userId, first.date, latest.date))
+            : null;
+        if (analysis.weekly_rate_kg !== null) {
+          const rate = weight(analysis.weekly_rate_kg);
+          response += `- Weekly rate: ${rate > 0 ? "+" : ""}${rate} ${unit}/week\n`;
+
+          if (expenditure) {
+            response += `\n### Estimated Energy Expenditure\n`;
+            response += `- Average intake: ${expenditure.average_intake} cal/day `;
+            response += `(${expenditure.logged_days} of ${expenditure.span_days} days logged)\n`;
+            response += `- Estimated expenditure: **${expenditure.expenditure} cal/day**\n`;
+            if (expenditure.logged_days < expenditure.span_days * 0.7) {
+              response += `\n*Many days have no food entries; the estimate assumes unlogged days match the logged average.*\n`;
+            }
+          }
+        } else {
+          response += `\n*Log weigh-ins over at least a week to see a weekly rate and expenditure estimate.*\n`;
+        }
+
+        const latestBodyFat = [...metrics].reverse().find((m) => m.body_fat_pct !== null);
+        const latestWaist = [...metrics].reverse().find((m) => m.waist_cm !== null);
+        if (latestBodyFat || latestWaist) {
+          response += `\n### Measurements\n`;
+          if (latestBodyFat) response += `- Body fat: ${latestBodyFat.body_fat_pct}% (${latestBodyFat.date})\n`;
+          if (latestWaist) response += `- Waist: ${Math.round(latestWaist.waist_cm! * 10) / 10} cm (${latestWaist.date})\n`;
+        }
+
+        response += `\n### Weigh-ins\n`;
+        for (const p of analysis.points) {
+          response += `- ${p.date}: ${weight(p.weight_kg)} ${unit} (trend ${weight(p.trend_kg)})\n`;
+        }
+
+        return {
+          content: [{ type: "text", text: response.trimEnd() }],
+          structuredContent: { start_date: startDate, end_date: endDate, analysis, expenditure, metrics },
+        };
+      }
+
+      case "delete_body_metrics": {
+        const { date } = DeleteBodyMetricsSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const deleted = deleteBodyMetric(userId, date);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: deleted ? `Deleted body metrics for ${date}` : `No body metrics logged for ${date}`,
+            },
+          ],
+          structuredContent: { date, deleted },
+        };
+      }
+
+      case "export_data": {
+        const input = ExportDataSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const endDate = input.end_date || getToday(userId);
+
+        const result = exportData({
+          userId,
+          profileName: getProfileName(userId),
+          startDate: input.start_date || getFirstLogDate(userId) || endDate,
+          endDate,
+          format: input.format,
+          outputDir: input.output_dir
+            ? confinedPath(session, input.output_dir, DEFAULT_EXPORT_DIR)
+            : DEFAULT_EXPORT_DIR,
+        });
+
+        let response = `Exported ${result.entries} food entries, ${result.goals} goal versions and `;
+        response += `${result.customFoods} custom foods:\n`;
+        response += result.files.map((f) => `- ${f}`).join("\n");
+
+        return { content: [{ type: "text", text: response }], structuredContent: { ...result } };
+      }
+
+      case "import_food_history": {
+        const input = ImportFoodHistorySchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const result = await importFoodHistory(confinedPath(session, input.file_path, DEFAULT_EXPORT_DIR), {
+          userId,
+          format: input.format,
+          columnMap: input.column_map,
+          dryRun: input.dry_run,
+          skipDuplicates: input.skip_duplicates,
+        });
+
+        const PREVIEW_LIMIT = 10;
+        let response = input.dry_run
+          ? `## Import Preview (${result.format})\n\n`
+          : `## Import Complete (${result.format})\n\n`;
+        response += `- Rows read: ${result.total}\n`;
+        response += input.dry_run
+          ? `- Ready to import: ${result.rows.length}\n`
+          : `- Imported: ${result.imported}\n`;
+        response += `- Invalid: ${result.invalid.length}\n`;
+        response += `- Duplicates of existing entries: ${result.duplicates.length}`;
+        response += input.skip_duplicates ? " (skipped)\n" : " (imported anyway)\n";
+
+        if (result.invalid.length > 0) {
+          response += `\n### Invalid Rows\n`;
+          for (const r of result.invalid.slice(0, PREVIEW_LIMIT)) {
+            response += `- Row ${r.row}: ${r.error}\n`;
+          }
+          if (result.invalid.length > PREVIEW_LIMIT) {
+            response += `- ...and ${result.invalid.length - PREVIEW_LIMIT} more\n`;
+          }
+        }
+
+        if (result.duplicates.length > 0) {
+          response += `\n### Duplicates\n`;
+          for (const d of result.duplicates.slice(0, PREVIEW_LIMIT)) {
+            response += `- Row ${d.row}: ${d.date} ${d.food_name}\n`;
+          }
+          if (result.duplicates.length > PREVIEW_LIMIT) {
+            response += `- ...and ${result.duplicates.length - PREVIEW_LIMIT} more\n`;
+          }
+        }
+
+        if (input.dry_run && result.rows.length > 0) {
+          response += `\n### First Rows\n`;
+          for (const { row, entry } of result.rows.slice(0, PREVIEW_LIMIT)) {
+            response += `- Row ${row}: ${entry.date}${entry.meal ? ` ${entry.meal}` : ""} - **${entry.food_name}** `;
+            response += `(${entry.serving_size} ${entry.serving_unit}) ${entry.calories} cal | `;
+            response += `P: ${entry.protein_g}g | C: ${entry.carbs_g}g | F: ${entry.fat_g}g\n`;
+          }
+          response += `\nRun again without dry_run to import.`;
+        }
+
+        return {
+          content: [{ type: "text", text: response.trimEnd() }],
+          structuredContent: {
+            format: result.format,
+            dry_run: input.dry_run,
+            total: result.total,
+            imported: result.imported,
+            ready: result.rows.length,
+            invalid: result.invalid,
+            duplicates: result.duplicates,
+            preview: result.rows.slice(0, PREVIEW_LIMIT).map(({ row, entry }) => ({ row, entry })),
+          },
+        };
+      }
+
+      case "backup_database": {
+        const { label } = BackupDatabaseSchema.parse(args);
+        const backup = await createBackup(label);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Backed up database to ${backup.path} (${formatBytes(backup.size)})`,
+            },
+          ],
+          structuredContent: { backup },
+        };
+      }
+
+      case "list_backups": {
+        const backups = listBackups();
 
-        if (!input.daily_calories && !input.protein_g && !input.carbs_g && !input.fat_g) {
-          const current = getGoals();
+        if (backups.length === 0) {
           return {
             content: [
               {
                 type: "text",
-                text: `**Current Goals:**\n` +
-                  `- Calories: ${current?.daily_calories || "not set"}\n` +
-                  `- Protein: ${current?.protein_g || "not set"}g\n` +
-                  `- Carbs: ${current?.carbs_g || "not set"}g\n` +
-                  `- Fat: ${current?.fat_g || "not set"}g`,
+                text: `No backups in ${getBackupDir()}. Create one with the backup_database tool.`,
               },
             ],
+            structuredContent: { backup_dir: getBackupDir(), backups },
           };
         }
 
-        const updated = updateGoals(input);
+        let response = `## Backups (${getBackupDir()})\n\n`;
+        for (const b of backups) {
+          const created = b.created_at.replace("T", " ").slice(0, 19);
+          response += `- **${b.name}** - ${created} UTC, ${formatBytes(b.size)}\n`;
+        }
+
+        return {
+          content: [{ type: "text", text: response.trimEnd() }],
+          structuredContent: { backup_dir: getBackupDir(), backups },
+        };
+      }
+
+      case "restore_backup": {
+        const input = RestoreBackupSchema.parse(args);
+        if (!input.confirm) {
+          throw new Error("Restoring replaces the current database; pass confirm: true to proceed");
+        }
+        const previousProfile = session.profile.name;
+        const { restored, safetyBackup } = await restoreBackup(confinedPath(session, input.backup, getBackupDir()));
+        reloadSessionProfiles();
+
+        let response = `Restored database from ${restored.name}.\n`;
+        if (session.profile.name !== previousProfile) {
+          response += `Profile "${previousProfile}" is not in the backup; the active profile is now **${session.profile.name}**.\n`;
+        }
+        response += `The previous database was saved as ${safetyBackup.name}; restore it to undo.`;
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { restored, safety_backup: safetyBackup, profile: session.profile.name },
+        };
+      }
+
+      case "check_database": {
+        const problems = checkIntegrity();
 
         return {
           content: [
             {
               type: "text",
-              text: `**Goals Updated:**\n` +
-                `- Calories: ${updated.daily_calories}\n` +
-                `- Protein: ${updated.protein_g}g\n` +
-                `- Carbs: ${updated.carbs_g}g\n` +
-                `- Fat: ${updated.fat_g}g`,
+              text: problems.length === 0
+                ? `Integrity check passed for ${getDbPath()}`
+                : `Integrity check found ${problems.length} problem(s) in ${getDbPath()}:\n` +
+                  problems.slice(0, 20).map((p) => `- ${p}`).join("\n") +
+                  `\n\nRestore a recent backup with restore_backup.`,
             },
           ],
+          structuredContent: { database: getDbPath(), ok: problems.length === 0, problems },
         };
       }
 
-      case "get_summary": {
-        const input = GetSummarySchema.parse(args);
-
-        let startDate: string;
-        let endDate: string;
+      case "list_profiles": {
+        const profiles = getProfiles();
+        const lines = profiles.map(
+          (p) =>
+            `- **${p.name}**${p.id === session.profile.id ? " (active)" : ""}` +
+            ` - ${p.timezone ?? `${getServerTimeZone()} (server default)`}`
+        );
+        return {
+          content: [{ type: "text", text: `**Profiles:**\n${lines.join("\n")}` }],
+          structuredContent: { active: session.profile.name, profiles },
+        };
+      }
 
-        if (input.period === "week") {
-          const today = new Date();
-          const weekAgo = new Date(today);
-          weekAgo.setDate(today.getDate() - 7);
-          startDate = weekAgo.toISOString().split("T")[0];
-          endDate = today.toISOString().split("T")[0];
-        } else if (input.period === "month") {
-          const today = new Date();
-          const monthAgo = new Date(today);
-          monthAgo.setMonth(today.getMonth() - 1);
-          startDate = monthAgo.toISOString().split("T")[0];
-          endDate = today.toISOString().split("T")[0];
-        } else if (input.start_date && input.end_date) {
-          startDate = input.start_date;
-          endDate = input.end_date;
-        } else {
-          // Default to last 7 days
-          const today = new Date();
-          const weekAgo = new Date(today);
-          weekAgo.setDate(today.getDate() - 7);
-          startDate = weekAgo.toISOString().split("T")[0];
-          endDate = today.toISOString().split("T")[0];
+      case "create_profile": {
+        const { name: profileName, timezone } = CreateProfileSchema.parse(args);
+        if (getProfileByName(profileName)) {
+          return {
+            content: [{ type: "text", text: `Profile "${profileName}" already exists.` }],
+            isError: true,
+          };
         }
 
-        const entries = getLogsByDateRange(startDate, endDate);
-        const goals = getGoals();
+        const profile = createProfile(profileName, timezone || null);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Created profile **${profile.name}** with default goals` +
+                `${profile.timezone ? ` in ${profile.timezone}` : ""}. Use switch_profile to make it active.`,
+            },
+          ],
+          structuredContent: { profile },
+        };
+      }
+
+      case "set_timezone": {
+        const { timezone } = SetTimezoneSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        setProfileTimeZone(userId, timezone.trim() || null);
 
-        if (entries.length === 0) {
+        const zone = getProfileTimeZone(userId);
+        const today = getToday(userId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Time zone for **${getProfileName(userId)}** is now ${zone}` +
+                `${timezone.trim() ? "" : " (server default)"}. It is ${today} there.`,
+            },
+          ],
+          structuredContent: { profile: getProfileName(userId), timezone: zone, today },
+        };
+      }
+
+      case "switch_profile": {
+        const { name: profileName } = ProfileNameSchema.parse(args);
+        const profile = getProfileByName(profileName);
+        if (!profile) {
+          const names = getProfiles().map((p) => p.name).join(", ");
           return {
             content: [
               {
                 type: "text",
-                text: `No food entries found between ${startDate} and ${endDate}.`,
+                text: `Profile "${profileName}" not found. Available profiles: ${names}`,
               },
             ],
+            isError: true,
           };
         }
 
-        // Group by date
-        const byDate: Record<string, typeof entries> = {};
-        for (const entry of entries) {
-          if (!byDate[entry.date]) byDate[entry.date] = [];
-          byDate[entry.date].push(entry);
-        }
+        session.profile = profile;
+        // Resources show the active profile, so all of this client's changed
+        for (const uri of session.subscriptions) notifyResourceUpdated(session.server, uri);
+        return {
+          content: [{ type: "text", text: `Active profile is now **${profile.name}**.` }],
+          structuredContent: { profile },
+        };
+      }
 
-        const dailyTotals = Object.entries(byDate).map(([date, dayEntries]) => ({
-          date,
-          ...calculateTotals(dayEntries),
-        }));
+      case "create_custom_food": {
+        const input = CreateCustomFoodSchema.parse(args);
+        const food = createCustomFood({
+          name: input.name,
+          serving_size: input.serving_size,
+          serving_unit: normalizeUnit(input.serving_unit),
+          calories: input.calories,
+          protein_g: input.protein_g ?? null,
+          carbs_g: input.carbs_g ?? null,
+          fat_g: input.fat_g ?? null,
+          fiber_g: input.fiber_g ?? null,
+          notes: input.notes || null,
+        }, toNutrientAmounts(input.nutrients));
 
-        const numDays = dailyTotals.length;
-        const avgCalories = Math.round(
-          dailyTotals.reduce((sum, d) => sum + d.calories, 0) / numDays
-        );
-        const avgProtein = Math.round(
-          (dailyTotals.reduce((sum, d) => sum + d.protein_g, 0) / numDays) * 10
-        ) / 10;
-        const avgCarbs = Math.round(
-          (dailyTotals.reduce((sum, d) => sum + d.carbs_g, 0) / numDays) * 10
-        ) / 10;
-        const avgFat = Math.round(
-          (dailyTotals.reduce((sum, d) => sum + d.fat_g, 0) / numDays) * 10
-        ) / 10;
+        let response = `Saved custom food: **${food.name}** [ID: ${food.id}]\n`;
+        response += `Per ${food.serving_size} ${food.serving_unit}: ${food.calories} cal`;
+        if (food.protein_g) response += ` | P: ${food.protein_g}g`;
+        if (food.carbs_g) response += ` | C: ${food.carbs_g}g`;
+        if (food.fat_g) response += ` | F: ${food.fat_g}g`;
 
-        let response = `## Nutrition Summary: ${startDate} to ${endDate}\n\n`;
-        response += `**${numDays} days tracked** | ${entries.length} total entries\n\n`;
+        return { content: [{ type: "text", text: response }], structuredContent: { food } };
+      }
 
-        response += `### Daily Averages\n`;
-        response += `- Calories: ${avgCalories}`;
-        if (goals?.daily_calories) {
-          const pct = Math.round((avgCalories / goals.daily_calories) * 100);
-          response += ` (${pct}% of ${goals.daily_calories} goal)`;
+      case "create_recipe": {
+        const input = CreateRecipeSchema.parse(args);
+
+        const ingredients = [];
+        for (const line of input.ingredients) {
+          ingredients.push(await resolveIngredient(usdaApi, line));
         }
-        response += `\n- Protein: ${avgProtein}g`;
-        if (goals?.protein_g) response += ` / ${goals.protein_g}g goal`;
-        response += `\n- Carbs: ${avgCarbs}g`;
-        if (goals?.carbs_g) response += ` / ${goals.carbs_g}g goal`;
-        response += `\n- Fat: ${avgFat}g`;
-        if (goals?.fat_g) response += ` / ${goals.fat_g}g goal`;
 
-        response += `\n\n### Daily Breakdown\n`;
-        for (const day of dailyTotals) {
-          response += `- ${day.date}: ${day.calories} cal | P: ${day.protein_g}g | C: ${day.carbs_g}g | F: ${day.fat_g}g\n`;
+        const recipe = createRecipe(
+          { name: input.name, servings: input.servings, notes: input.notes || null },
+          ingredients
+        );
+
+        let response = `Saved recipe: **${recipe.name}** [ID: ${recipe.id}] (makes ${recipe.servings} servings)\n\n`;
+        response += `### Ingredients\n`;
+        const recipeIngredients = getRecipeIngredients(recipe.id);
+        for (const i of recipeIngredients) {
+          response += `- ${i.amount} ${i.unit} ${i.food_name} - ${i.calories} cal\n`;
         }
+        response += `\n**Per serving:** ${recipe.calories} cal | P: ${recipe.protein_g}g | `;
+        response += `C: ${recipe.carbs_g}g | F: ${recipe.fat_g}g | Fiber: ${recipe.fiber_g}g`;
 
-        return { content: [{ type: "text", text: response }] };
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { recipe, ingredients: recipeIngredients },
+        };
       }
 
-      case "delete_entry": {
-        const { entry_id } = DeleteEntrySchema.parse(args);
-        const deleted = deleteEntry(entry_id);
+      case "log_recipe": {
+        const input = LogRecipeSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const recipe = getRecipe(input.recipe_id);
+        if (!recipe) {
+          return {
+            content: [{ type: "text", text: `Recipe ${input.recipe_id} not found.` }],
+            isError: true,
+          };
+        }
 
-        if (deleted) {
+        const date = input.date || getToday(userId);
+        const scale = (value: number) => Math.round(value * input.servings * 10) / 10;
+        const entry = logFood({
+          user_id: userId,
+          date,
+          meal: input.meal || null,
+          food_name: recipe.name,
+          fdc_id: null,
+          serving_size: input.servings,
+          serving_unit: "serving",
+          calories: Math.round(recipe.calories * input.servings),
+          protein_g: scale(recipe.protein_g),
+          carbs_g: scale(recipe.carbs_g),
+          fat_g: scale(recipe.fat_g),
+          fiber_g: scale(recipe.fiber_g),
+          notes: input.notes || null,
+        }, getRecipeNutrients(recipe).map((n) => ({ ...n, amount: n.amount * input.servings })));
+
+        const totals = calculateTotals(getDailyLog(userId, date));
+        let response = `Logged: **${entry.food_name}** (${entry.serving_size} serving${entry.serving_size === 1 ? "" : "s"})\n`;
+        response += `${entry.calories} cal | P: ${entry.protein_g}g | C: ${entry.carbs_g}g | F: ${entry.fat_g}g`;
+        if (entry.meal) response += `\nMeal: ${entry.meal}`;
+        response += `\n\n**Daily Total (${date}):** ${totals.calories} cal`;
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { entry, daily_totals: totals },
+        };
+      }
+
+      case "list_recent_foods": {
+        const input = ListRecentFoodsSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const since = shiftDate(getToday(userId), -input.days);
+        const foods = getFrequentFoods(userId, since, input.sort, input.limit);
+        const favorites = getFavoriteFoods(userId);
+
+        let response = "";
+        if (favorites.length > 0) {
+          response += `## Favorites\n\n`;
+          for (const f of favorites) {
+            response += `- **${f.food_name}** (${f.serving_size} ${f.serving_unit}) ${f.calories} cal [Favorite ID: ${f.id}]\n`;
+          }
+          response += "\n";
+        }
+        response += `## ${input.sort === "recent" ? "Recently" : "Frequently"} Logged (last ${input.days} days)\n\n`;
+        if (foods.length === 0) {
+          response += "Nothing logged in this period.\n";
+        }
+        for (const f of foods) {
+          response +=
+            `- **${f.food_name}** (${f.serving_size} ${f.serving_unit}) ${f.calories} cal - ` +
+            `logged ${f.times_logged}x, last ${f.last_date} [Entry ID: ${f.entry_id}]`;
+          if (f.favorite_id !== null) response += " ★";
+          response += "\n";
+        }
+        response += `\nUse relog with an entry_id or favorite_id to log one again.`;
+
+        return { content: [{ type: "text", text: response }], structuredContent: { favorites, foods } };
+      }
+
+      case "star_food": {
+        const { entry_id } = StarFoodSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const entry = getEntry(userId, entry_id);
+        if (!entry) {
           return {
-            content: [{ type: "text", text: `Entry ${entry_id} deleted successfully.` }],
+            content: [{ type: "text", text: `Entry ${entry_id} not found.` }],
+            isError: true,
           };
+        }
+
+        const favorite = saveFavoriteFood(userId, entryToLog(entry));
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Starred **${favorite.food_name}** (${favorite.serving_size} ${favorite.serving_unit}) ` +
+                `[Favorite ID: ${favorite.id}]`,
+            },
+          ],
+          structuredContent: { favorite },
+        };
+      }
+
+      case "unstar_food": {
+        const { favorite_id } = UnstarFoodSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const deleted = deleteFavoriteFood(userId, favorite_id);
+        return {
+          content: [
+            {
+              type: "text",
+              text: deleted ? `Favorite ${favorite_id} removed.` : `Favorite ${favorite_id} not found.`,
+            },
+          ],
+          structuredContent: { favorite_id, deleted },
+        };
+      }
+
+      case "save_meal_template": {
+        const input = SaveMealTemplateSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const date = input.date || getToday(userId);
+
+        let entries;
+        if (input.entry_ids) {
+          entries = input.entry_ids.map((id) => {
+            const entry = getEntry(userId, id);
+            if (!entry) throw new Error(`Entry ${id} not found`);
+            return entry;
+          });
         } else {
+          entries = mealEntries(userId, date, input.meal ?? null);
+          if (entries.length === 0) {
+            throw new Error(`Nothing logged${input.meal ? ` for ${input.meal}` : ""} on ${date}`);
+          }
+        }
+
+        // Without an explicit meal, keep the one all the foods were eaten at
+        const meals = new Set(entries.map((e) => e.meal));
+        const meal = input.meal ?? (meals.size === 1 ? entries[0].meal : null);
+        const template = saveMealTemplate(userId, input.name, meal, entries.map(entryToLog));
+
+        const totals = calculateTotals(template.items);
+        let response = `Saved meal template: **${template.name}**${template.meal ? ` (${template.meal})` : ""}\n\n`;
+        for (const item of template.items) {
+          response += `- ${item.food_name} (${item.serving_size} ${item.serving_unit}) ${item.calories} cal\n`;
+        }
+        response += `\n**Total:** ${totals.calories} cal | P: ${totals.protein_g}g | C: ${totals.carbs_g}g | `;
+        response += `F: ${totals.fat_g}g\n\nLog it with relog and template "${template.name}".`;
+
+        return { content: [{ type: "text", text: response }], structuredContent: { template } };
+      }
+
+      case "list_meal_templates": {
+        const userId = resolveProfileId(args, session.profile);
+        const templates = getMealTemplates(userId);
+        if (templates.length === 0) {
           return {
-            content: [{ type: "text", text: `Entry ${entry_id} not found.` }],
+            content: [{ type: "text", text: "No meal templates yet. Save one with save_meal_template." }],
+            structuredContent: { templates },
           };
         }
+
+        let response = `## Meal Templates\n\n`;
+        for (const template of templates) {
+          const totals = calculateTotals(template.items);
+          response += `### ${template.name}${template.meal ? ` (${template.meal})` : ""} - ${totals.calories} cal\n`;
+          for (const item of template.items) {
+            response += `- ${item.food_name} (${item.serving_size} ${item.serving_unit}) ${item.calories} cal\n`;
+          }
+          response += "\n";
+        }
+
+        return { content: [{ type: "text", text: response.trim() }], structuredContent: { templates } };
+      }
+
+      case "delete_meal_template": {
+        const { name: templateName } = MealTemplateNameSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const deleted = deleteMealTemplate(userId, templateName);
+        return {
+          content: [
+            {
+              type: "text",
+              text: deleted
+                ? `Meal template "${templateName}" deleted.`
+                : `Meal template "${templateName}" not found.`,
+            },
+          ],
+          structuredContent: { name: templateName, deleted },
+        };
+      }
+
+      case "relog": {
+        const input = RelogSchema.parse(args);
+        const userId = resolveProfileId(args, session.profile);
+        const date = input.date || getToday(userId);
+
+        let source: RelogSource;
+        if (input.entry_id !== undefined) source = { entryId: input.entry_id };
+        else if (input.favorite_id !== undefined) source = { favoriteId: input.favorite_id };
+        else if (input.template !== undefined) source = { template: input.template };
+        else source = { fromDate: input.from_date!, fromMeal: input.from_meal ?? null };
+
+        const logged = relog(source, { userId, date, meal: input.meal ?? null, servings: input.servings });
+
+        const totals = calculateTotals(getDailyLog(userId, date));
+        let response = `## Logged for ${date}\n\n`;
+        for (const entry of logged) {
+          response +=
+            `- **${entry.food_name}** (${entry.serving_size} ${entry.serving_unit}) ${entry.calories} cal | ` +
+            `P: ${entry.protein_g ?? 0}g | C: ${entry.carbs_g ?? 0}g | F: ${entry.fat_g ?? 0}g`;
+          if (entry.meal) response += ` - ${entry.meal}`;
+          response += ` [ID: ${entry.id}]\n`;
+        }
+        response += `\n**Daily Total (${date}):** ${totals.calories} cal`;
+        if (logged.length > 1) {
+          response += `\n\nLogged ${logged.length} entries as one change; undo_last_change removes them all.`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { date, logged, daily_totals: totals },
+        };
       }
 
       default:
@@ -485,8 +2978,139 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
+}
+
+// Connected servers (one for stdio, one per HTTP session) and their clients
+const sessions = new Set<ClientSession>();
+
+function notifyResourceUpdated(server: Server, uri: string) {
+  server.sendResourceUpdated({ uri }).catch((error) => {
+    console.error(`Failed to send resource update for ${uri}:`, error);
+  });
+}
+
+// Tell each client whose active profile is `userId` about the subscribed
+// resources `affected` picks out
+function notifyProfileResources(userId: number, affected: (subscribed: Set<string>) => string[]) {
+  for (const session of sessions) {
+    if (userId !== session.profile.id) continue;
+    for (const uri of affected(session.subscriptions)) {
+      notifyResourceUpdated(session.server, uri);
+    }
+  }
+}
+
+onDataChange((records) => {
+  notifyProfileResources(records[0].user_id, (subscribed) => affectedResources(records, subscribed));
+});
+
+onGoalSettingsChange((userId, date) => {
+  notifyProfileResources(userId, (subscribed) => goalSettingsResources(date, subscribed));
 });
 
+// Look up each client's active profile again after the database file was
+// replaced: a restored backup may lack it or give it another ID. Clients whose
+// profile is gone fall back to the default profile.
+function reloadSessionProfiles() {
+  for (const session of sessions) {
+    session.profile =
+      getProfileByName(session.profile.name) ??
+      getProfileByName(DEFAULT_PROFILE_NAME) ??
+      createProfile(DEFAULT_PROFILE_NAME);
+    // Every resource may have changed with the database
+    for (const uri of session.subscriptions) notifyResourceUpdated(session.server, uri);
+  }
+}
+
+// A YYYY-MM-DD prompt or CLI argument, or today when it is omitted
+function dateArgument(value: string | undefined, name: string, userId: number): string {
+  if (!value) return getToday(userId);
+  if (!isValidDate(value)) {
+    throw new Error(`Invalid ${name} "${value}"; expected a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+async function getPrompt(request: GetPromptRequest, session: ClientSession) {
+  const { name, arguments: args = {} } = request.params;
+  const userId = resolveProfileId(args, session.profile);
+  const profileName = getProfileName(userId);
+
+  switch (name) {
+    case "plan_remaining_meals":
+      return planRemainingMeals(userId, profileName, dateArgument(args.date, "date", userId), args.preferences);
+    case "review_week": {
+      const endDate = dateArgument(args.end_date, "end_date", userId);
+      return reviewWeek(userId, profileName, shiftDate(endDate, -6), endDate);
+    }
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
+
+// Create an MCP server with all tools, resources and prompts. Each transport
+// connection gets its own server and active profile; the database is shared.
+// `remote` servers (HTTP sessions) can't name files outside the export and
+// backup directories.
+function createServer(remote = false): Server {
+  const server = new Server(
+    {
+      name: "food-tracker-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+
+  const session: ClientSession = { server, profile: getStartupProfile(), subscriptions: new Set(), remote };
+  sessions.add(session);
+  server.onclose = () => {
+    sessions.delete(session);
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, (request) => callTool(request, session));
+
+  // Resources: the diary of the client's active profile as JSON
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const today = getToday(session.profile.id);
+    return { resources: listResources(today, shiftDate(today, -6)) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const userId = session.profile.id;
+    return {
+      contents: [readResource(request.params.uri, userId, getProfileName(userId), getToday(userId))],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    session.subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+  server.setRequestHandler(GetPromptRequestSchema, (request) => getPrompt(request, session));
+
+  return server;
+}
+
 // Cleanup on exit
 process.on("SIGINT", () => {
   closeDb();
@@ -498,11 +3122,137 @@ process.on("SIGTERM", () => {
   process.exit(0);
 });
 
+// Import a USDA FoodData Central download into the local database
+async function runImportCommand(source: string | undefined) {
+  if (!source) {
+    console.error("Usage: food-tracker-mcp import-usda <csv-directory | file.json>");
+    process.exit(1);
+  }
+
+  const started = Date.now();
+  const result = await importUSDADataset(source, (message) => console.error(message));
+  const seconds = Math.round((Date.now() - started) / 1000);
+  console.error(
+    `Imported ${result.foods} foods, ${result.nutrients} nutrient values and ` +
+      `${result.portions} portions in ${seconds}s`
+  );
+}
+
+// Read `--name value` options of a CLI subcommand
+function parseOptions(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--") || args[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${args[i]}`);
+    }
+    options[args[i].slice(2)] = args[++i];
+  }
+  return options;
+}
+
+function runExportCommand(args: string[]) {
+  const options = parseOptions(args);
+  const format = options.format ?? "csv";
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    console.error(
+      "Usage: food-tracker-mcp export [--format csv|json|myfitnesspal] [--from YYYY-MM-DD] " +
+        "[--to YYYY-MM-DD] [--profile name] [--out directory]"
+    );
+    process.exit(1);
+  }
+
+  const userId = resolveProfileId({ profile: options.profile }, getStartupProfile());
+  const endDate = dateArgument(options.to, "--to", userId);
+  const result = exportData({
+    userId,
+    profileName: getProfileName(userId),
+    startDate: options.from ? dateArgument(options.from, "--from", userId) : getFirstLogDate(userId) || endDate,
+    endDate,
+    format: format as ExportFormat,
+    outputDir: options.out || DEFAULT_EXPORT_DIR,
+  });
+
+  console.error(`Exported ${result.entries} food entries to:`);
+  for (const file of result.files) console.error(`  ${file}`);
+}
+
+async function runBackupCommand(subcommand: string, args: string[]) {
+  if (subcommand === "backup") {
+    const backup = await createBackup(args[0]);
+    console.error(`Backed up database to ${backup.path}`);
+  } else if (subcommand === "list-backups") {
+    for (const b of listBackups()) {
+      console.error(`${b.name}\t${formatBytes(b.size)}`);
+    }
+  } else if (subcommand === "restore") {
+    if (!args[0]) {
+      console.error("Usage: food-tracker-mcp restore <backup name or path>");
+      process.exit(1);
+    }
+    const { restored, safetyBackup } = await restoreBackup(args[0]);
+    console.error(`Restored ${restored.name}; previous database saved as ${safetyBackup.name}`);
+  } else {
+    const problems = checkIntegrity();
+    console.error(problems.length === 0 ? "Integrity check passed" : problems.join("\n"));
+    if (problems.length > 0) process.exitCode = 1;
+  }
+}
+
 // Start server
 async function main() {
+  if (command === "import-usda") {
+    await runImportCommand(commandArgs[0]);
+    closeDb();
+    return;
+  }
+  if (command === "export") {
+    runExportCommand(commandArgs);
+    closeDb();
+    return;
+  }
+  if (["backup", "list-backups", "restore", "check-db"].includes(command)) {
+    await runBackupCommand(command, commandArgs);
+    closeDb();
+    return;
+  }
+  if (command && command !== "http") {
+    console.error(`Unknown command: ${command}`);
+    console.error(
+      "Usage: food-tracker-mcp [--db <path>] [http [--host host] [--port port] | import-usda <path> | " +
+        "export [options] | backup [label] | list-backups | restore <backup> | check-db]"
+    );
+    process.exit(1);
+  }
+
+  // Fail on a misspelled FOOD_TRACKER_TIMEZONE now rather than on the first tool call
+  getServerTimeZone();
+
+  // FOOD_TRACKER_AUTO_BACKUP takes at most one backup per day on startup
+  if (["1", "true"].includes(process.env.FOOD_TRACKER_AUTO_BACKUP?.toLowerCase() ?? "")) {
+    const keep = Number(process.env.FOOD_TRACKER_BACKUP_KEEP) || DEFAULT_BACKUP_RETENTION;
+    const backup = await autoBackup(keep);
+    if (backup) console.error(`Backed up database to ${backup.path}`);
+  }
+
+  if (command === "http") {
+    const options = parseOptions(commandArgs);
+    const host = options.host || process.env.FOOD_TRACKER_HTTP_HOST || DEFAULT_HTTP_HOST;
+    const port = Number(options.port || process.env.FOOD_TRACKER_HTTP_PORT || DEFAULT_HTTP_PORT);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid port: ${options.port || process.env.FOOD_TRACKER_HTTP_PORT}`);
+    }
+    const token = process.env.FOOD_TRACKER_HTTP_TOKEN || undefined;
+    await startHttpServer(() => createServer(true), { host, port, token });
+    console.error(
+      `Food Tracker MCP server listening on http://${host.includes(":") ? `[${host}]` : host}:${port}/mcp ` +
+        `(${token ? "token required" : "no authentication"}, database: ${getDbPath()})`
+    );
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Food Tracker MCP server running on stdio");
+  await createServer().connect(transport);
+  console.error(`Food Tracker MCP server running on stdio (database: ${getDbPath()})`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,369 @@
+// JSON Schemas of the structuredContent each tool returns alongside its text.
+// The fragments mirror the interfaces in types.ts and the services.
+
+type Schema = Record<string, unknown>;
+
+const number = { type: "number" };
+const string = { type: "string" };
+const boolean = { type: "boolean" };
+const nullableNumber = { type: ["number", "null"] };
+const nullableString = { type: ["string", "null"] };
+
+const nullable = (schema: Schema) => ({ anyOf: [schema, { type: "null" }] });
+const array = (items: Schema) => ({ type: "array", items });
+
+// All properties are required unless listed in `optional`
+function object(properties: Record<string, Schema>, optional: string[] = []) {
+  return {
+    type: "object" as const,
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+const nutritionInfo = object({
+  calories: number,
+  protein_g: number,
+  carbs_g: number,
+  fat_g: number,
+  fiber_g: number,
+});
+
+const entryFields = {
+  date: string,
+  meal: nullableString,
+  food_name: string,
+  fdc_id: nullableNumber,
+  serving_size: number,
+  serving_unit: string,
+  calories: number,
+  protein_g: nullableNumber,
+  carbs_g: nullableNumber,
+  fat_g: nullableNumber,
+  fiber_g: nullableNumber,
+  notes: nullableString,
+};
+
+const foodLogEntry = object(
+  { id: number, user_id: number, logged_at: string, ...entryFields, deleted_at: nullableString },
+  ["deleted_at"]
+);
+
+const nutrientAmount = object({ nutrient_id: number, name: string, unit: string, amount: number });
+
+const macroGoals = {
+  daily_calories: nullableNumber,
+  protein_g: nullableNumber,
+  carbs_g: nullableNumber,
+  fat_g: nullableNumber,
+};
+
+const goals = object(
+  { id: number, user_id: number, effective_from: string, ...macroGoals, updated_at: string, template: string },
+  ["template"]
+);
+
+const goalTemplate = object({ id: number, user_id: number, name: string, ...macroGoals });
+
+const goalSchedule = object({
+  weekdays: array(object({ weekday: number, template: string })),
+  dates: array(object({ date: string, template: string })),
+});
+
+const nutrientGoal = object({
+  nutrient_id: number,
+  name: string,
+  unit: string,
+  min_amount: nullableNumber,
+  max_amount: nullableNumber,
+});
+
+const remainingMacros = object(
+  { calories: number, protein_g: number, carbs_g: number, fat_g: number },
+  ["calories", "protein_g", "carbs_g", "fat_g"]
+);
+
+const auditRecord = object({
+  id: number,
+  change_id: number,
+  user_id: number,
+  table_name: { type: "string", enum: ["food_logs", "goal_versions"] },
+  row_id: number,
+  action: { type: "string", enum: ["insert", "update", "delete", "restore"] },
+  before: nullableString,
+  after: nullableString,
+  undo_of: nullableNumber,
+  created_at: string,
+});
+
+const bodyMetric = object({
+  id: number,
+  user_id: number,
+  date: string,
+  weight_kg: nullableNumber,
+  body_fat_pct: nullableNumber,
+  waist_cm: nullableNumber,
+  notes: nullableString,
+  updated_at: string,
+});
+
+const customFood = object({
+  id: number,
+  name: string,
+  serving_size: number,
+  serving_unit: string,
+  calories: number,
+  protein_g: nullableNumber,
+  carbs_g: nullableNumber,
+  fat_g: nullableNumber,
+  fiber_g: nullableNumber,
+  notes: nullableString,
+  created_at: string,
+});
+
+const recipe = object({
+  id: number,
+  name: string,
+  servings: number,
+  calories: number,
+  protein_g: number,
+  carbs_g: number,
+  fat_g: number,
+  fiber_g: number,
+  notes: nullableString,
+  created_at: string,
+});
+
+const recipeIngredient = object({
+  id: number,
+  recipe_id: number,
+  food_name: string,
+  fdc_id: nullableNumber,
+  custom_food_id: nullableNumber,
+  amount: number,
+  unit: string,
+  calories: number,
+  protein_g: number,
+  carbs_g: number,
+  fat_g: number,
+  fiber_g: number,
+});
+
+const foodSearchResult = object(
+  {
+    fdcId: number,
+    description: string,
+    brandOwner: string,
+    dataType: string,
+    nutrition: nutritionInfo,
+    servingSize: number,
+    servingSizeUnit: string,
+    cached: boolean,
+    timesLogged: number,
+  },
+  ["brandOwner", "servingSize", "servingSizeUnit", "cached", "timesLogged"]
+);
+
+const savedFoodFields = {
+  food_name: string,
+  fdc_id: nullableNumber,
+  serving_size: number,
+  serving_unit: string,
+  calories: number,
+  protein_g: nullableNumber,
+  carbs_g: nullableNumber,
+  fat_g: nullableNumber,
+  fiber_g: nullableNumber,
+};
+
+const favoriteFood = object({ id: number, user_id: number, ...savedFoodFields, created_at: string });
+
+const frequentFood = object({
+  entry_id: number,
+  ...savedFoodFields,
+  times_logged: number,
+  last_date: string,
+  favorite_id: nullableNumber,
+});
+
+const mealTemplate = object({
+  id: number,
+  user_id: number,
+  name: string,
+  meal: nullableString,
+  created_at: string,
+  items: array(object({ id: number, ...savedFoodFields })),
+});
+
+const profile = object({ id: number, name: string, timezone: nullableString, created_at: string });
+
+const backupInfo = object({
+  name: string,
+  path: string,
+  size: number,
+  created_at: string,
+  label: nullableString,
+});
+
+const dailySummary = object({
+  date: string,
+  entries: array(foodLogEntry),
+  totals: nutritionInfo,
+  goals: nullable(goals),
+  remaining: nullable(remainingMacros),
+  nutrients: array(nutrientAmount),
+});
+
+const dayTotals = object({ date: string, totals: nutritionInfo, goals: nullable(goals) });
+
+const weightAnalysis = object({
+  points: array(object({ date: string, weight_kg: number, trend_kg: number, average_kg: number })),
+  weekly_rate_kg: nullableNumber,
+  span_days: number,
+});
+
+const expenditureEstimate = object({
+  average_intake: number,
+  expenditure: number,
+  logged_days: number,
+  span_days: number,
+});
+
+export const OUTPUT_SCHEMAS = {
+  search_food: object({
+    query: string,
+    offset: number,
+    has_more: boolean,
+    truncated: boolean,
+    foods: array(foodSearchResult),
+    custom_foods: array(customFood),
+    recipes: array(recipe),
+  }),
+  lookup_barcode: object(
+    {
+      barcode: string,
+      food: nullable(
+        object({
+          fdcId: number,
+          description: string,
+          brandOwner: nullableString,
+          gtinUpc: nullableString,
+          ingredients: nullableString,
+        })
+      ),
+      serving: nullable(
+        object({ amount: number, unit: string, grams: number, label: nullableString, household: nullableString })
+      ),
+      nutrition: nullable(nutritionInfo),
+      nutrients: array(nutrientAmount),
+      cached: boolean,
+    }
+  ),
+  log_food: object({
+    entry: foodLogEntry,
+    grams: nullableNumber,
+    daily_totals: nutritionInfo,
+    goals: nullable(goals),
+  }),
+  log_meal_text: object({
+    text: string,
+    date: string,
+    dry_run: boolean,
+    logged: array(foodLogEntry),
+    items: array(
+      object({
+        text: string,
+        quantity: number,
+        unit: nullableString,
+        food: string,
+        match: nullable(
+          object({ name: string, fdc_id: nullableNumber, custom_food_id: nullableNumber, confidence: number })
+        ),
+        entry: nullable(object({ user_id: number, ...entryFields })),
+        error: nullableString,
+      })
+    ),
+    totals: nutritionInfo,
+  }),
+  get_daily_log: dailySummary,
+  set_goals: object({
+    updated: boolean,
+    goals: nullable(goals),
+    nutrient_goals: array(nutrientGoal),
+  }),
+  calculate_tdee: object({
+    bmr: number,
+    tdee: number,
+    target_calories: number,
+    daily_adjustment: number,
+    warning: nullableString,
+    macros: nullable(object({ protein_g: number, carbs_g: number, fat_g: number })),
+    saved_goals: nullable(goals),
+  }),
+  get_goal_history: object({ goals: array(goals) }),
+  save_goal_template: object({ template: goalTemplate }),
+  set_goal_schedule: object({ schedule: goalSchedule }),
+  get_goal_schedule: object({ templates: array(goalTemplate), schedule: goalSchedule }),
+  get_summary: object({
+    start_date: string,
+    end_date: string,
+    days_tracked: number,
+    entry_count: number,
+    averages: nutritionInfo,
+    average_goals: object(macroGoals),
+    goals_changed: boolean,
+    nutrient_averages: array(nutrientAmount),
+    days: array(dayTotals),
+  }),
+  delete_entry: object({ entry_id: number, deleted: boolean }),
+  restore_entry: object({ entry_id: number, entry: nullable(foodLogEntry) }),
+  undo_last_change: object({ undone: array(auditRecord) }),
+  update_entry: object({
+    entry_id: number,
+    entry: nullable(foodLogEntry),
+    nutrient_scale: nullableNumber,
+  }),
+  log_body_metrics: object({ metric: bodyMetric }),
+  get_weight_trend: object({
+    start_date: string,
+    end_date: string,
+    analysis: weightAnalysis,
+    expenditure: nullable(expenditureEstimate),
+    metrics: array(bodyMetric),
+  }),
+  delete_body_metrics: object({ date: string, deleted: boolean }),
+  export_data: object({
+    files: array(string),
+    entries: number,
+    goals: number,
+    customFoods: number,
+  }),
+  import_food_history: object({
+    format: string,
+    dry_run: boolean,
+    total: number,
+    imported: number,
+    ready: number,
+    invalid: array(object({ row: number, error: string })),
+    duplicates: array(object({ row: number, date: string, food_name: string })),
+    preview: array(object({ row: number, entry: object({ user_id: number, ...entryFields }) })),
+  }),
+  backup_database: object({ backup: backupInfo }),
+  list_backups: object({ backup_dir: string, backups: array(backupInfo) }),
+  restore_backup: object({ restored: backupInfo, safety_backup: backupInfo, profile: string }),
+  check_database: object({ database: string, ok: boolean, problems: array(string) }),
+  list_profiles: object({ active: string, profiles: array(profile) }),
+  create_profile: object({ profile }),
+  switch_profile: object({ profile }),
+  set_timezone: object({ profile: string, timezone: string, today: string }),
+  create_custom_food: object({ food: customFood }),
+  create_recipe: object({ recipe, ingredients: array(recipeIngredient) }),
+  log_recipe: object({ entry: foodLogEntry, daily_totals: nutritionInfo }),
+  list_recent_foods: object({ favorites: array(favoriteFood), foods: array(frequentFood) }),
+  star_food: object({ favorite: favoriteFood }),
+  unstar_food: object({ favorite_id: number, deleted: boolean }),
+  save_meal_template: object({ template: mealTemplate }),
+  list_meal_templates: object({ templates: array(mealTemplate) }),
+  delete_meal_template: object({ name: string, deleted: boolean }),
+  relog: object({ date: string, logged: array(foodLogEntry), daily_totals: nutritionInfo }),
+};
@@ -0,0 +1,50 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createBackup, listBackups, pruneAutoBackups } from "./backup.js";
+import { closeDb, setDbPath } from "./database.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "food-tracker-test-"));
+  setDbPath(path.join(dir, "food-tracker.db"));
+  vi.stubEnv("FOOD_TRACKER_BACKUP_DIR", path.join(dir, "backups"));
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-10-19T08:30:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  closeDb();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createBackup", () => {
+  it("numbers backups taken within the same second without changing their label", async () => {
+    const first = await createBackup("auto");
+    const second = await createBackup("auto");
+    const third = await createBackup();
+
+    expect(first).toMatchObject({ name: "food-tracker-20261019-083000-auto.db", label: "auto" });
+    expect(second).toMatchObject({ name: "food-tracker-20261019-083000-auto.2.db", label: "auto" });
+    expect(third).toMatchObject({ name: "food-tracker-20261019-083000.db", label: null });
+  });
+});
+
+describe("pruneAutoBackups", () => {
+  it("prunes numbered automatic backups, oldest first", async () => {
+    await createBackup("auto");
+    await createBackup("auto");
+    await createBackup("auto");
+    await createBackup("manual");
+
+    expect(pruneAutoBackups(1)).toBe(2);
+    expect(listBackups().map((b) => b.name)).toEqual([
+      "food-tracker-20261019-083000-auto.3.db",
+      "food-tracker-20261019-083000-manual.db",
+    ]);
+  });
+});
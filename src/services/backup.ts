@@ -0,0 +1,169 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { closeDb, getDb, getDbPath } from "./database.js";
+import { SCHEMA_VERSION } from "./migrations.js";
+
+const BACKUP_PREFIX = "food-tracker-";
+const BACKUP_EXTENSION = ".db";
+
+// Suffix of backups taken automatically on startup; only these are pruned
+const AUTO_LABEL = "auto";
+
+export const DEFAULT_BACKUP_RETENTION = 7;
+
+export interface BackupInfo {
+  name: string;
+  path: string;
+  size: number;
+  created_at: string;
+  label: string | null;
+}
+
+// FOOD_TRACKER_BACKUP_DIR, or a backups directory next to the database
+export function getBackupDir(): string {
+  return process.env.FOOD_TRACKER_BACKUP_DIR
+    ? path.resolve(process.env.FOOD_TRACKER_BACKUP_DIR)
+    : path.join(path.dirname(getDbPath()), "backups");
+}
+
+// e.g. food-tracker-20250115-083000-auto.db. Further backups within the same
+// second get a counter after the label: food-tracker-20250115-083000-auto.2.db
+function backupName(label?: string, counter = 1): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return `${BACKUP_PREFIX}${stamp}${label ? `-${label}` : ""}${counter > 1 ? `.${counter}` : ""}${BACKUP_EXTENSION}`;
+}
+
+const BACKUP_NAME = /^food-tracker-(\d{8}-\d{6})(?:-(.+?))?(?:\.(\d+))?\.db$/;
+
+function parseLabel(name: string): string | null {
+  return name.match(BACKUP_NAME)?.[2] ?? null;
+}
+
+// Order of backups by creation: timestamp, then counter
+function sortKey(name: string): string {
+  const match = name.match(BACKUP_NAME);
+  return match ? `${match[1]}.${(match[3] ?? "1").padStart(6, "0")}` : name;
+}
+
+// Copy the live database with SQLite's online backup API, which is safe
+// while the server is writing
+export async function createBackup(label?: string): Promise<BackupInfo> {
+  const dir = getBackupDir();
+  fs.mkdirSync(dir, { recursive: true });
+
+  let file = path.join(dir, backupName(label));
+  for (let i = 2; fs.existsSync(file); i++) {
+    file = path.join(dir, backupName(label, i));
+  }
+
+  await getDb().backup(file);
+  return describeBackup(file);
+}
+
+function describeBackup(file: string): BackupInfo {
+  const stat = fs.statSync(file);
+  return {
+    name: path.basename(file),
+    path: file,
+    size: stat.size,
+    created_at: stat.mtime.toISOString(),
+    label: parseLabel(path.basename(file)),
+  };
+}
+
+// Backups in the backup directory, newest first
+export function listBackups(): BackupInfo[] {
+  const dir = getBackupDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.startsWith(BACKUP_PREFIX) && name.endsWith(BACKUP_EXTENSION))
+    .map((name) => describeBackup(path.join(dir, name)))
+    .sort((a, b) => sortKey(b.name).localeCompare(sortKey(a.name)));
+}
+
+// Problems reported by PRAGMA integrity_check; empty when the database is sound
+export function checkIntegrity(database: Database.Database = getDb()): string[] {
+  const rows = database.pragma("integrity_check") as { integrity_check: string }[];
+  const messages = rows.map((r) => r.integrity_check);
+  return messages.length === 1 && messages[0] === "ok" ? [] : messages;
+}
+
+// Resolve a backup by name (from listBackups) or path
+function findBackup(nameOrPath: string): string {
+  const file =
+    nameOrPath.includes(path.sep) || nameOrPath.includes("/")
+      ? path.resolve(nameOrPath)
+      : path.join(getBackupDir(), nameOrPath);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Backup not found: ${nameOrPath}`);
+  }
+  return file;
+}
+
+// Replace the live database with a backup. The backup is verified first and
+// the current database is backed up, so a restore can itself be undone.
+export async function restoreBackup(
+  nameOrPath: string
+): Promise<{ restored: BackupInfo; safetyBackup: BackupInfo }> {
+  const file = findBackup(nameOrPath);
+
+  let problems: string[];
+  let version: number;
+  let candidate: Database.Database | null = null;
+  try {
+    candidate = new Database(file, { readonly: true, fileMustExist: true });
+    problems = checkIntegrity(candidate);
+    version = candidate.pragma("user_version", { simple: true }) as number;
+  } catch {
+    throw new Error(`Not a valid database backup: ${file}`);
+  } finally {
+    candidate?.close();
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Backup failed integrity check: ${problems.slice(0, 3).join("; ")}`);
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Backup schema version ${version} is newer than this server supports`);
+  }
+
+  const safetyBackup = await createBackup("pre-restore");
+
+  const dbFile = getDbPath();
+  closeDb();
+  for (const suffix of ["-wal", "-shm"]) {
+    fs.rmSync(`${dbFile}${suffix}`, { force: true });
+  }
+  fs.copyFileSync(file, dbFile);
+
+  // Reopen, upgrading an older backup to the current schema
+  getDb();
+  return { restored: describeBackup(file), safetyBackup };
+}
+
+// Delete all but the newest `keep` automatic backups
+export function pruneAutoBackups(keep: number): number {
+  const stale = listBackups()
+    .filter((b) => b.label === AUTO_LABEL)
+    .slice(keep);
+  for (const backup of stale) {
+    fs.rmSync(backup.path, { force: true });
+  }
+  return stale.length;
+}
+
+// Back up once per day on startup and apply retention. Returns the new
+// backup, or null if today's automatic backup already exists.
+export async function autoBackup(keep: number): Promise<BackupInfo | null> {
+  const today = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  const existing = listBackups().find(
+    (b) => b.label === AUTO_LABEL && b.name.startsWith(`${BACKUP_PREFIX}${today}`)
+  );
+  if (existing) return null;
+
+  const backup = await createBackup(AUTO_LABEL);
+  pruneAutoBackups(keep);
+  return backup;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { formatBarcode, normalizeBarcode } from "./barcodes.js";
+
+describe("normalizeBarcode", () => {
+  it("pads codes with a valid check digit to GTIN-14", () => {
+    expect(normalizeBarcode("036000291452")).toBe("00036000291452");
+    expect(normalizeBarcode("36000291452")).toBe("00036000291452");
+    expect(normalizeBarcode("4006381333931")).toBe("04006381333931");
+    expect(normalizeBarcode("9638-5074")).toBe("00000096385074");
+  });
+
+  it("appends the check digit to UPC-A and EAN-8 codes printed without one", () => {
+    expect(normalizeBarcode("03600029145")).toBe("00036000291452");
+    expect(normalizeBarcode("9638507")).toBe("00000096385074");
+  });
+
+  it("rejects mistyped codes instead of completing them", () => {
+    expect(() => normalizeBarcode("036000291453")).toThrow("invalid check digit");
+    expect(() => normalizeBarcode("4006381333932")).toThrow("invalid check digit");
+    expect(() => normalizeBarcode("96385075")).toThrow("invalid check digit");
+  });
+
+  it("rejects codes of the wrong length", () => {
+    expect(() => normalizeBarcode("123456")).toThrow("expected 7 to 14 digits");
+    expect(() => normalizeBarcode("123456789012345")).toThrow("expected 7 to 14 digits");
+  });
+});
+
+describe("formatBarcode", () => {
+  it("prints the shortest standard form", () => {
+    expect(formatBarcode("00036000291452")).toBe("036000291452");
+    expect(formatBarcode("04006381333931")).toBe("4006381333931");
+  });
+});
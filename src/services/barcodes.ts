@@ -0,0 +1,51 @@
+// UPC/EAN barcodes. Codes are normalized to a 14-digit GTIN so the same
+// product matches whether it was scanned as UPC-A, EAN-13 or GTIN-14, and
+// stored USDA values are compared with leading zeros stripped.
+
+// GS1 check digit: weights 3 and 1 alternate from the rightmost digit
+function checkDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function hasValidCheckDigit(code: string): boolean {
+  return checkDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+// Normalize a scanned or typed barcode to GTIN-14. Leading zeros don't
+// change the check digit, so a code that checks out is only padded (e.g. a
+// UPC-A typed without its leading 0). Only EAN-8 and UPC-A bodies (7 and 11
+// digits) are taken as printed without a check digit and get the computed one
+// appended; any other code that fails the check is a typo and is rejected.
+export function normalizeBarcode(code: string): string {
+  const digits = code.replace(/[\s-]/g, "");
+  if (!/^\d{7,14}$/.test(digits)) {
+    throw new Error(`"${code}" is not a UPC/EAN barcode; expected 7 to 14 digits`);
+  }
+
+  if (hasValidCheckDigit(digits)) {
+    return digits.padStart(14, "0");
+  }
+  if (digits.length === 7 || digits.length === 11) {
+    return `${digits}${checkDigit(digits)}`.padStart(14, "0");
+  }
+  throw new Error(`"${code}" has an invalid check digit`);
+}
+
+// Shortest printed form of a GTIN-14: UPC-A (12 digits) for US products,
+// otherwise EAN-13 or the full GTIN-14
+export function formatBarcode(gtin: string): string {
+  if (gtin.startsWith("00")) return gtin.slice(2);
+  if (gtin.startsWith("0")) return gtin.slice(1);
+  return gtin;
+}
+
+// Key two barcodes of the same product share, however many leading zeros
+// they were stored with
+export function barcodeKey(code: string): string {
+  return code.trim().replace(/^0+/, "");
+}
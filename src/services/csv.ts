@@ -0,0 +1,83 @@
+import fs from "fs";
+import readline from "readline";
+
+// Split one CSV record into fields, honouring quotes and "" escapes
+export function parseCsvRecord(record: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// Stream a CSV file as header-keyed records. Quoted fields may span lines.
+export async function* readCsv(file: string): AsyncGenerator<Record<string, string>> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+
+  let header: string[] | null = null;
+  let pending = "";
+
+  for await (const line of lines) {
+    if (!pending && line.trim() === "") continue;
+    pending = pending ? `${pending}\n${line}` : line;
+    // An odd number of quotes means a quoted field continues on the next line
+    if ((pending.match(/"/g)?.length ?? 0) % 2 === 1) continue;
+
+    const fields = parseCsvRecord(pending.replace(/^\uFEFF/, ""));
+    pending = "";
+
+    if (!header) {
+      header = fields;
+      continue;
+    }
+
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = fields[i] ?? "";
+    });
+    yield record;
+  }
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+export function formatCsvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Build a CSV document from a header row and records keyed by header name
+export function formatCsv(
+  header: string[],
+  rows: Record<string, string | number | null | undefined>[]
+): string {
+  const lines = [header.map(formatCsvField).join(",")];
+  for (const row of rows) {
+    lines.push(header.map((column) => formatCsvField(row[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,149 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { FoodLogEntry, NutrientAmount } from "../types.js";
+import {
+  calculateTotals,
+  closeDb,
+  createCustomFood,
+  deleteEntry,
+  getDailyLog,
+  getEntry,
+  getEntryNutrients,
+  getFrequentFoods,
+  getGoals,
+  getNutrientTotals,
+  logFood,
+  searchCustomFoods,
+  setDbPath,
+  undoLastChange,
+  updateEntry,
+  updateGoals,
+} from "./database.js";
+import { exportData } from "./export.js";
+
+const USER_ID = 1;
+const DATE = "2026-10-19";
+
+const SODIUM: NutrientAmount = { nutrient_id: 1093, name: "Sodium, Na", unit: "mg", amount: 400 };
+
+function entry(food_name: string, calories: number): Omit<FoodLogEntry, "id" | "logged_at"> {
+  return {
+    user_id: USER_ID,
+    date: DATE,
+    meal: "lunch",
+    food_name,
+    fdc_id: null,
+    serving_size: 1,
+    serving_unit: "serving",
+    calories,
+    protein_g: 10,
+    carbs_g: 20,
+    fat_g: 5,
+    fiber_g: 2,
+    notes: null,
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "food-tracker-test-"));
+  setDbPath(path.join(dir, "food-tracker.db"));
+});
+
+afterEach(() => {
+  closeDb();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("undoLastChange", () => {
+  it("steps back through log, update and delete, nutrients included", () => {
+    const logged = logFood(entry("Soup", 300), [SODIUM]);
+    updateEntry(USER_ID, logged.id, { serving_size: 2, calories: 600 }, 2);
+    deleteEntry(USER_ID, logged.id);
+    expect(getDailyLog(USER_ID, DATE)).toEqual([]);
+
+    expect(undoLastChange(USER_ID)).toEqual([expect.objectContaining({ action: "delete", row_id: logged.id })]);
+    expect(getEntry(USER_ID, logged.id)).toMatchObject({ serving_size: 2, calories: 600, deleted_at: null });
+    expect(getEntryNutrients(logged.id)).toEqual([{ ...SODIUM, amount: 800 }]);
+
+    expect(undoLastChange(USER_ID)).toEqual([expect.objectContaining({ action: "update", row_id: logged.id })]);
+    expect(getEntry(USER_ID, logged.id)).toEqual({ ...logged, deleted_at: null });
+    expect(getEntryNutrients(logged.id)).toEqual([SODIUM]);
+
+    expect(undoLastChange(USER_ID)).toEqual([expect.objectContaining({ action: "insert", row_id: logged.id })]);
+    expect(getDailyLog(USER_ID, DATE)).toEqual([]);
+
+    expect(undoLastChange(USER_ID)).toEqual([]);
+  });
+
+  it("brings back the goal version that a same-day change replaced", () => {
+    updateGoals(USER_ID, { daily_calories: 1800 }, DATE);
+    updateGoals(USER_ID, { daily_calories: 2200 }, DATE);
+    expect(getGoals(USER_ID, DATE)?.daily_calories).toBe(2200);
+
+    undoLastChange(USER_ID);
+    expect(getGoals(USER_ID, DATE)).toMatchObject({ effective_from: DATE, daily_calories: 1800 });
+
+    undoLastChange(USER_ID);
+    expect(getGoals(USER_ID, DATE)).toMatchObject({ effective_from: "1970-01-01", daily_calories: 2000 });
+  });
+});
+
+describe("deleted entries", () => {
+  let kept: FoodLogEntry;
+
+  beforeEach(() => {
+    kept = logFood(entry("Soup", 300), [SODIUM]);
+    const deleted = logFood(entry("Cake", 450), [{ ...SODIUM, amount: 250 }]);
+    deleteEntry(USER_ID, deleted.id);
+  });
+
+  it("drop out of daily logs and totals", () => {
+    expect(getDailyLog(USER_ID, DATE).map((e) => e.id)).toEqual([kept.id]);
+    expect(calculateTotals(getDailyLog(USER_ID, DATE)).calories).toBe(300);
+    expect(getNutrientTotals(USER_ID, DATE, DATE)).toEqual([SODIUM]);
+  });
+
+  it("drop out of exports", () => {
+    const result = exportData({
+      userId: USER_ID,
+      profileName: "default",
+      startDate: DATE,
+      endDate: DATE,
+      format: "json",
+      outputDir: dir,
+    });
+
+    expect(result.entries).toBe(1);
+    const data = JSON.parse(fs.readFileSync(result.files[0], "utf-8"));
+    expect(data.food_logs.map((e: FoodLogEntry) => e.food_name)).toEqual(["Soup"]);
+  });
+
+  it("drop out of recent foods", () => {
+    expect(getFrequentFoods(USER_ID, DATE, "recent").map((f) => f.food_name)).toEqual(["Soup"]);
+  });
+});
+
+describe("searchCustomFoods", () => {
+  it("matches % and _ literally", () => {
+    const food = {
+      serving_size: 1,
+      serving_unit: "cup",
+      calories: 110,
+      protein_g: null,
+      carbs_g: null,
+      fat_g: null,
+      fiber_g: null,
+      notes: null,
+    };
+    createCustomFood({ ...food, name: "100% orange juice" });
+    createCustomFood({ ...food, name: "Apple juice" });
+
+    expect(searchCustomFoods("%").map((f) => f.name)).toEqual(["100% orange juice"]);
+    expect(searchCustomFoods("0% o").map((f) => f.name)).toEqual(["100% orange juice"]);
+    expect(searchCustomFoods("_")).toEqual([]);
+  });
+});
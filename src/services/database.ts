@@ -1,77 +1,202 @@
 import Database from "better-sqlite3";
+import fs from "fs";
+import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
-import type { FoodLogEntry, Goals, NutritionInfo } from "../types.js";
+import type {
+  AuditRecord,
+  BodyMetric,
+  CachedUSDAFood,
+  CustomFood,
+  DatasetFoodNutrientRow,
+  DatasetFoodRow,
+  DatasetNutrientRow,
+  DatasetPortionRow,
+  FavoriteFood,
+  FoodLogEntry,
+  FoodToLog,
+  FrequentFood,
+  GoalSchedule,
+  GoalTemplate,
+  Goals,
+  MealTemplate,
+  NutrientAmount,
+  NutrientGoal,
+  NutritionInfo,
+  Profile,
+  Recipe,
+  RecipeIngredient,
+  SavedFood,
+  USDAFood,
+} from "../types.js";
+import { getServerTimeZone, isValidTimeZone, timestampIn } from "./dates.js";
+import { runMigrations } from "./migrations.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DB_PATH = path.join(__dirname, "../../data.db");
+
+// Where databases lived before the location was configurable: inside the
+// installed package, which npx and upgrades replace
+const LEGACY_DB_PATH = path.join(__dirname, "../../data.db");
+
+const DB_FILE_NAME = "food-tracker.db";
 
 let db: Database.Database | null = null;
+let dbPath: string | null = null;
+
+// Per-user data directory: $XDG_DATA_HOME (default ~/.local/share), or
+// %APPDATA% on Windows
+function defaultDataDir(): string {
+  if (process.platform === "win32") {
+    const appData = process.env.APPDATA || path.join(os.homedir(), "AppData", "Roaming");
+    return path.join(appData, "food-tracker-mcp");
+  }
+  return path.join(
+    process.env.XDG_DATA_HOME || path.join(os.homedir(), ".local", "share"),
+    "food-tracker-mcp"
+  );
+}
+
+// Use a specific database file (e.g. from --db); must be called before getDb
+export function setDbPath(file: string): void {
+  if (db) {
+    throw new Error("Database is already open");
+  }
+  dbPath = path.resolve(file);
+}
+
+// Database file in use: --db, then FOOD_TRACKER_DB, then the data directory
+export function getDbPath(): string {
+  if (!dbPath) {
+    dbPath = process.env.FOOD_TRACKER_DB
+      ? path.resolve(process.env.FOOD_TRACKER_DB)
+      : path.join(defaultDataDir(), DB_FILE_NAME);
+  }
+  return dbPath;
+}
+
+// Copy a database from the old in-package location the first time the
+// default location is used, so upgrading keeps existing data
+function adoptLegacyDatabase(target: string): void {
+  if (process.env.FOOD_TRACKER_DB || fs.existsSync(target) || !fs.existsSync(LEGACY_DB_PATH)) {
+    return;
+  }
+  const legacy = new Database(LEGACY_DB_PATH);
+  try {
+    legacy.pragma("wal_checkpoint(TRUNCATE)");
+  } finally {
+    legacy.close();
+  }
+  fs.copyFileSync(LEGACY_DB_PATH, target);
+  console.error(`Copied existing database from ${LEGACY_DB_PATH} to ${target}`);
+}
 
 export function getDb(): Database.Database {
   if (!db) {
-    db = new Database(DB_PATH);
+    const file = getDbPath();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (file === path.join(defaultDataDir(), DB_FILE_NAME)) {
+      adoptLegacyDatabase(file);
+    }
+
+    db = new Database(file);
     db.pragma("journal_mode = WAL");
-    initializeSchema();
+    runMigrations(db);
   }
   return db;
 }
 
-function initializeSchema(): void {
-  const database = db!;
+// effective_from of goals that apply to every date
+export const GOALS_START_DATE = "1970-01-01";
 
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS goals (
-      id INTEGER PRIMARY KEY DEFAULT 1,
-      daily_calories INTEGER,
-      protein_g INTEGER,
-      carbs_g INTEGER,
-      fat_g INTEGER,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
+function insertDefaultGoals(userId: number): void {
+  getDb()
+    .prepare(
+      `INSERT INTO goal_versions (user_id, effective_from, daily_calories, protein_g, carbs_g, fat_g)
+       VALUES (?, ?, 2000, 150, 250, 65)`
+    )
+    .run(userId, GOALS_START_DATE);
+}
 
-    CREATE TABLE IF NOT EXISTS food_logs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      logged_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      date TEXT NOT NULL,
-      meal TEXT,
-      food_name TEXT NOT NULL,
-      fdc_id INTEGER,
-      serving_size REAL NOT NULL,
-      serving_unit TEXT NOT NULL,
-      calories REAL NOT NULL,
-      protein_g REAL,
-      carbs_g REAL,
-      fat_g REAL,
-      fiber_g REAL,
-      notes TEXT
-    );
+export const DEFAULT_PROFILE_NAME = "default";
 
-    CREATE INDEX IF NOT EXISTS idx_food_logs_date ON food_logs(date);
-  `);
+// Profile operations
+export function getProfiles(): Profile[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM users ORDER BY id").all() as Profile[];
+}
 
-  // Insert default goals row if not exists
-  const goalsExist = database
-    .prepare("SELECT COUNT(*) as count FROM goals")
-    .get() as { count: number };
-  if (goalsExist.count === 0) {
-    database
-      .prepare(
-        "INSERT INTO goals (id, daily_calories, protein_g, carbs_g, fat_g) VALUES (1, 2000, 150, 250, 65)"
-      )
-      .run();
+export function getProfileByName(name: string): Profile | null {
+  const db = getDb();
+  return (
+    (db.prepare("SELECT * FROM users WHERE name = ?").get(name.trim()) as Profile | undefined) ??
+    null
+  );
+}
+
+export function createProfile(name: string, timeZone: string | null = null): Profile {
+  if (timeZone !== null && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}". Use an IANA name such as America/New_York`);
   }
+  const db = getDb();
+  const create = db.transaction(() => {
+    const result = db.prepare("INSERT INTO users (name, timezone) VALUES (?, ?)").run(name.trim(), timeZone);
+    const userId = Number(result.lastInsertRowid);
+    insertDefaultGoals(userId);
+    return userId;
+  });
+
+  const userId = create();
+  return db.prepare("SELECT * FROM users WHERE id = ?").get(userId) as Profile;
+}
+
+// Time zone that "today" and log timestamps are resolved in for a profile
+export function getProfileTimeZone(userId: number): string {
+  const db = getDb();
+  const row = db.prepare("SELECT timezone FROM users WHERE id = ?").get(userId) as
+    | { timezone: string | null }
+    | undefined;
+  return row?.timezone ?? getServerTimeZone();
+}
+
+// Set a profile's IANA time zone; null falls back to the server's zone
+export function setProfileTimeZone(userId: number, timeZone: string | null): void {
+  if (timeZone !== null && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}". Use an IANA name such as America/New_York`);
+  }
+  const db = getDb();
+  db.prepare("UPDATE users SET timezone = ? WHERE id = ?").run(timeZone, userId);
 }
 
 // Goals operations
-export function getGoals(): Goals | null {
+
+// Goals in force for a profile on the given date
+export function getGoals(userId: number, date: string): Goals | null {
+  const db = getDb();
+  return (
+    (db
+      .prepare(
+        `SELECT * FROM goal_versions
+         WHERE user_id = ? AND effective_from <= ?
+         ORDER BY effective_from DESC, id DESC
+         LIMIT 1`
+      )
+      .get(userId, date) as Goals | undefined) ?? null
+  );
+}
+
+export function getGoalHistory(userId: number): Goals[] {
   const db = getDb();
-  return db.prepare("SELECT * FROM goals WHERE id = 1").get() as Goals | null;
+  return db
+    .prepare("SELECT * FROM goal_versions WHERE user_id = ? ORDER BY effective_from, id")
+    .all(userId) as Goals[];
 }
 
-export function updateGoals(goals: Partial<Goals>): Goals {
+// Record new goals effective from a date, filling unspecified values from the
+// goals in force then. Later versions are left untouched; a version already
+// starting on that date is replaced.
+export function updateGoals(userId: number, goals: Partial<Goals>, effectiveFrom: string): Goals {
   const db = getDb();
-  const current = getGoals();
+  const current = getGoals(userId, effectiveFrom);
 
   const newGoals = {
     daily_calories: goals.daily_calories ?? current?.daily_calories,
@@ -80,78 +205,1324 @@ export function updateGoals(goals: Partial<Goals>): Goals {
     fat_g: goals.fat_g ?? current?.fat_g,
   };
 
+  const id = inChange(() => {
+    const replaced = db
+      .prepare("SELECT * FROM goal_versions WHERE user_id = ? AND effective_from = ?")
+      .get(userId, effectiveFrom) as Goals | undefined;
+    if (replaced) {
+      db.prepare("DELETE FROM goal_versions WHERE id = ?").run(replaced.id);
+      recordAudit(userId, "goal_versions", replaced.id, "delete", replaced, null);
+    }
+
+    const result = db
+      .prepare(
+        `INSERT INTO goal_versions (user_id, effective_from, daily_calories, protein_g, carbs_g, fat_g)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        userId,
+        effectiveFrom,
+        newGoals.daily_calories,
+        newGoals.protein_g,
+        newGoals.carbs_g,
+        newGoals.fat_g
+      );
+    const id = Number(result.lastInsertRowid);
+    recordAudit(userId, "goal_versions", id, "insert", null, getGoalVersion(id));
+    return id;
+  });
+
+  return getGoalVersion(id)!;
+}
+
+function getGoalVersion(id: number): Goals | null {
+  const db = getDb();
+  return (db.prepare("SELECT * FROM goal_versions WHERE id = ?").get(id) as Goals | undefined) ?? null;
+}
+
+// Goal template and schedule operations
+export function saveGoalTemplate(
+  userId: number,
+  template: Omit<GoalTemplate, "id" | "user_id">
+): GoalTemplate {
+  const db = getDb();
   db.prepare(
-    `UPDATE goals SET
-      daily_calories = ?,
-      protein_g = ?,
-      carbs_g = ?,
-      fat_g = ?,
-      updated_at = CURRENT_TIMESTAMP
-    WHERE id = 1`
+    `INSERT INTO goal_templates (user_id, name, daily_calories, protein_g, carbs_g, fat_g)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, name) DO UPDATE SET
+       daily_calories = excluded.daily_calories,
+       protein_g = excluded.protein_g,
+       carbs_g = excluded.carbs_g,
+       fat_g = excluded.fat_g`
   ).run(
-    newGoals.daily_calories,
-    newGoals.protein_g,
-    newGoals.carbs_g,
-    newGoals.fat_g
+    userId,
+    template.name.trim(),
+    template.daily_calories,
+    template.protein_g,
+    template.carbs_g,
+    template.fat_g
   );
+  goalSettingsChanged(userId);
+  return getGoalTemplate(userId, template.name)!;
+}
+
+export function getGoalTemplate(userId: number, name: string): GoalTemplate | null {
+  const db = getDb();
+  return (
+    (db
+      .prepare("SELECT * FROM goal_templates WHERE user_id = ? AND name = ?")
+      .get(userId, name.trim()) as GoalTemplate | undefined) ?? null
+  );
+}
+
+export function getGoalTemplates(userId: number): GoalTemplate[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM goal_templates WHERE user_id = ? ORDER BY name")
+    .all(userId) as GoalTemplate[];
+}
+
+// Assign a template to a weekday; null clears it
+export function setWeekdayTemplate(userId: number, weekday: number, templateId: number | null): void {
+  const db = getDb();
+  if (templateId === null) {
+    db.prepare("DELETE FROM goal_weekday_schedule WHERE user_id = ? AND weekday = ?").run(
+      userId,
+      weekday
+    );
+  } else {
+    db.prepare(
+      "INSERT OR REPLACE INTO goal_weekday_schedule (user_id, weekday, template_id) VALUES (?, ?, ?)"
+    ).run(userId, weekday, templateId);
+  }
+  goalSettingsChanged(userId);
+}
+
+// Tag a date with a template (e.g. an unscheduled training day); null clears it
+export function setDateTemplate(userId: number, date: string, templateId: number | null): void {
+  const db = getDb();
+  if (templateId === null) {
+    db.prepare("DELETE FROM goal_date_tags WHERE user_id = ? AND date = ?").run(userId, date);
+  } else {
+    db.prepare(
+      "INSERT OR REPLACE INTO goal_date_tags (user_id, date, template_id) VALUES (?, ?, ?)"
+    ).run(userId, date, templateId);
+  }
+  goalSettingsChanged(userId, date);
+}
 
-  return getGoals()!;
+export function getGoalSchedule(userId: number, fromDate: string): GoalSchedule {
+  const db = getDb();
+  const weekdays = db
+    .prepare(
+      `SELECT s.weekday, t.name AS template FROM goal_weekday_schedule s
+       JOIN goal_templates t ON t.id = s.template_id
+       WHERE s.user_id = ? ORDER BY s.weekday`
+    )
+    .all(userId) as GoalSchedule["weekdays"];
+  const dates = db
+    .prepare(
+      `SELECT d.date, t.name AS template FROM goal_date_tags d
+       JOIN goal_templates t ON t.id = d.template_id
+       WHERE d.user_id = ? AND d.date >= ? ORDER BY d.date`
+    )
+    .all(userId, fromDate) as GoalSchedule["dates"];
+  return { weekdays, dates };
+}
+
+// Goals that apply on a date: a template tagged on the date, else the
+// template scheduled for its weekday, layered over the versioned goals.
+// Template values left unset fall back to the versioned goals.
+export function getGoalsForDate(userId: number, date: string): Goals | null {
+  const db = getDb();
+  const base = getGoals(userId, date);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+  const template = (db
+    .prepare(
+      `SELECT t.* FROM goal_date_tags d
+       JOIN goal_templates t ON t.id = d.template_id
+       WHERE d.user_id = ? AND d.date = ?`
+    )
+    .get(userId, date) ??
+    db
+      .prepare(
+        `SELECT t.* FROM goal_weekday_schedule s
+         JOIN goal_templates t ON t.id = s.template_id
+         WHERE s.user_id = ? AND s.weekday = ?`
+      )
+      .get(userId, weekday)) as GoalTemplate | undefined;
+
+  if (!template) return base;
+  return {
+    id: base?.id ?? 0,
+    user_id: userId,
+    effective_from: base?.effective_from ?? date,
+    daily_calories: template.daily_calories ?? base?.daily_calories ?? null,
+    protein_g: template.protein_g ?? base?.protein_g ?? null,
+    carbs_g: template.carbs_g ?? base?.carbs_g ?? null,
+    fat_g: template.fat_g ?? base?.fat_g ?? null,
+    updated_at: base?.updated_at ?? "",
+    template: template.name,
+  };
+}
+
+// Nutrient goal operations
+export function getNutrientGoals(userId: number): NutrientGoal[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT g.nutrient_id, n.name, n.unit_name AS unit, g.min_amount, g.max_amount
+       FROM nutrient_goals g
+       JOIN nutrients n ON n.id = g.nutrient_id
+       WHERE g.user_id = ?
+       ORDER BY n.name`
+    )
+    .all(userId) as NutrientGoal[];
+}
+
+// Set a nutrient target/limit; passing neither removes the goal
+export function setNutrientGoal(
+  userId: number,
+  nutrient: Omit<NutrientAmount, "amount">,
+  minAmount: number | null,
+  maxAmount: number | null
+): void {
+  const db = getDb();
+  if (minAmount === null && maxAmount === null) {
+    db.prepare("DELETE FROM nutrient_goals WHERE user_id = ? AND nutrient_id = ?").run(
+      userId,
+      nutrient.nutrient_id
+    );
+  } else {
+    saveNutrientDefinition(nutrient);
+    db.prepare(
+      `INSERT INTO nutrient_goals (user_id, nutrient_id, min_amount, max_amount) VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id, nutrient_id) DO UPDATE SET
+         min_amount = excluded.min_amount,
+         max_amount = excluded.max_amount`
+    ).run(userId, nutrient.nutrient_id, minAmount, maxAmount);
+  }
+  goalSettingsChanged(userId);
 }
 
 // Food log operations
-export function logFood(entry: Omit<FoodLogEntry, "id" | "logged_at">): FoodLogEntry {
+export function logFood(
+  entry: Omit<FoodLogEntry, "id" | "logged_at">,
+  nutrients: NutrientAmount[] = []
+): FoodLogEntry {
+  const db = getDb();
+
+  const entryId = inChange(() => {
+    const result = db
+      .prepare(
+        `INSERT INTO food_logs
+          (user_id, logged_at, date, meal, food_name, fdc_id, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.user_id,
+        timestampIn(getProfileTimeZone(entry.user_id)),
+        entry.date,
+        entry.meal,
+        entry.food_name,
+        entry.fdc_id,
+        entry.serving_size,
+        entry.serving_unit,
+        entry.calories,
+        entry.protein_g,
+        entry.carbs_g,
+        entry.fat_g,
+        entry.fiber_g,
+        entry.notes
+      );
+
+    const id = Number(result.lastInsertRowid);
+    saveEntryNutrients(id, nutrients);
+    recordAudit(entry.user_id, "food_logs", id, "insert", null, getEntrySnapshot(id));
+    return id;
+  });
+
+  return db.prepare("SELECT * FROM food_logs WHERE id = ?").get(entryId) as FoodLogEntry;
+}
+
+function saveNutrientDefinition(nutrient: Omit<NutrientAmount, "amount">): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO nutrients (id, name, unit_name) VALUES (?, ?, ?)
+     ON CONFLICT(id) DO NOTHING`
+  ).run(nutrient.nutrient_id, nutrient.name, nutrient.unit);
+}
+
+function saveEntryNutrients(entryId: number, nutrients: NutrientAmount[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    "INSERT OR REPLACE INTO food_log_nutrients (entry_id, nutrient_id, amount) VALUES (?, ?, ?)"
+  );
+  for (const nutrient of nutrients) {
+    saveNutrientDefinition(nutrient);
+    insert.run(entryId, nutrient.nutrient_id, nutrient.amount);
+  }
+}
+
+// Insert many entries at once as a single undoable change; nothing is
+// written if any insert fails
+export function logFoods(
+  rows: { entry: Omit<FoodLogEntry, "id" | "logged_at">; nutrients: NutrientAmount[] }[]
+): FoodLogEntry[] {
+  return inChange(() => rows.map((row) => logFood(row.entry, row.nutrients)));
+}
+
+export function getEntryNutrients(entryId: number): NutrientAmount[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT fn.nutrient_id, n.name, n.unit_name AS unit, fn.amount
+       FROM food_log_nutrients fn
+       JOIN nutrients n ON n.id = fn.nutrient_id
+       WHERE fn.entry_id = ?
+       ORDER BY n.name`
+    )
+    .all(entryId) as NutrientAmount[];
+}
+
+// Multiply every captured nutrient of an entry, e.g. after a serving change
+function scaleEntryNutrients(entryId: number, factor: number): void {
+  const db = getDb();
+  db.prepare("UPDATE food_log_nutrients SET amount = amount * ? WHERE entry_id = ?").run(
+    factor,
+    entryId
+  );
+}
+
+// Sum of every captured nutrient over a date range (inclusive)
+export function getNutrientTotals(
+  userId: number,
+  startDate: string,
+  endDate: string
+): NutrientAmount[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT fn.nutrient_id, n.name, n.unit_name AS unit, SUM(fn.amount) AS amount
+       FROM food_log_nutrients fn
+       JOIN food_logs l ON l.id = fn.entry_id
+       JOIN nutrients n ON n.id = fn.nutrient_id
+       WHERE l.user_id = ? AND l.date >= ? AND l.date <= ? AND l.deleted_at IS NULL
+       GROUP BY fn.nutrient_id
+       ORDER BY n.name`
+    )
+    .all(userId, startDate, endDate) as NutrientAmount[];
+}
+
+// Entries of a day in the order they were logged. logged_at carries the UTC
+// offset it was logged in, which changes with DST or set_timezone, so it is
+// compared as an instant (julianday) rather than as text.
+export function getDailyLog(userId: number, date: string): FoodLogEntry[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM food_logs WHERE user_id = ? AND date = ? AND deleted_at IS NULL
+       ORDER BY julianday(logged_at), id`
+    )
+    .all(userId, date) as FoodLogEntry[];
+}
+
+export function getLogsByDateRange(
+  userId: number,
+  startDate: string,
+  endDate: string
+): FoodLogEntry[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM food_logs
+       WHERE user_id = ? AND date >= ? AND date <= ? AND deleted_at IS NULL
+       ORDER BY date, julianday(logged_at), id`
+    )
+    .all(userId, startDate, endDate) as FoodLogEntry[];
+}
+
+// Date of the earliest food entry, or null if nothing has been logged
+export function getFirstLogDate(userId: number): string | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT MIN(date) AS date FROM food_logs WHERE user_id = ? AND deleted_at IS NULL")
+    .get(userId) as { date: string | null };
+  return row.date;
+}
+
+// How often each USDA food has been logged, keyed by FDC ID
+export function getLoggedFdcCounts(userId: number): Map<number, number> {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT fdc_id, COUNT(*) AS count FROM food_logs
+       WHERE user_id = ? AND fdc_id IS NOT NULL AND deleted_at IS NULL
+       GROUP BY fdc_id`
+    )
+    .all(userId) as { fdc_id: number; count: number }[];
+  return new Map(rows.map((r) => [r.fdc_id, r.count]));
+}
+
+export function getEntry(userId: number, id: number): FoodLogEntry | null {
+  const db = getDb();
+  return (
+    (db
+      .prepare("SELECT * FROM food_logs WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+      .get(id, userId) as FoodLogEntry | undefined) ?? null
+  );
+}
+
+const UPDATABLE_ENTRY_FIELDS = [
+  "date",
+  "meal",
+  "food_name",
+  "fdc_id",
+  "serving_size",
+  "serving_unit",
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fat_g",
+  "fiber_g",
+  "notes",
+] as const;
+
+// Patch an existing entry, keeping its id and logged_at. Captured nutrients
+// are multiplied by `nutrientScale` when the serving changed.
+export function updateEntry(
+  userId: number,
+  id: number,
+  patch: Partial<Omit<FoodLogEntry, "id" | "user_id" | "logged_at" | "deleted_at">>,
+  nutrientScale: number = 1
+): FoodLogEntry | null {
+  const db = getDb();
+  const fields = UPDATABLE_ENTRY_FIELDS.filter((field) => patch[field] !== undefined);
+  if (!getEntry(userId, id)) return null;
+
+  inChange(() => {
+    const before = getEntrySnapshot(id);
+    if (fields.length > 0) {
+      db.prepare(
+        `UPDATE food_logs SET ${fields.map((f) => `${f} = ?`).join(", ")} WHERE id = ? AND user_id = ?`
+      ).run(...fields.map((f) => patch[f]), id, userId);
+    }
+    if (nutrientScale !== 1) {
+      scaleEntryNutrients(id, nutrientScale);
+    }
+    recordAudit(userId, "food_logs", id, "update", before, getEntrySnapshot(id));
+  });
+
+  return getEntry(userId, id);
+}
+
+// Soft-delete: the entry disappears from logs and totals but can be restored
+export function deleteEntry(userId: number, id: number): boolean {
+  const db = getDb();
+  return inChange(() => {
+    const before = getEntrySnapshot(id);
+    const result = db
+      .prepare(
+        "UPDATE food_logs SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+      )
+      .run(id, userId);
+    if (result.changes === 0) return false;
+    recordAudit(userId, "food_logs", id, "delete", before, getEntrySnapshot(id));
+    return true;
+  });
+}
+
+// Bring back a soft-deleted entry; null if there is no deleted entry with this id
+export function restoreEntry(userId: number, id: number): FoodLogEntry | null {
+  const db = getDb();
+  const restored = inChange(() => {
+    const before = getEntrySnapshot(id);
+    const result = db
+      .prepare(
+        "UPDATE food_logs SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL"
+      )
+      .run(id, userId);
+    if (result.changes === 0) return false;
+    recordAudit(userId, "food_logs", id, "restore", before, getEntrySnapshot(id));
+    return true;
+  });
+  return restored ? getEntry(userId, id) : null;
+}
+
+// Audit operations
+type EntrySnapshot = FoodLogEntry & { nutrients: NutrientAmount[] };
+
+// Change that audit records are currently being written under (see inChange)
+let activeChange: { id: number; undoOf: number | null } | null = null;
+
+// Listeners told about every committed change, with its audit records
+const changeListeners: ((records: AuditRecord[]) => void)[] = [];
+
+export function onDataChange(listener: (records: AuditRecord[]) => void): void {
+  changeListeners.push(listener);
+}
+
+// Listeners told when a profile's goal templates, goal schedule or nutrient
+// goals change. These aren't audited, so they don't reach onDataChange; `date`
+// is set when only that day's goals changed.
+const goalSettingsListeners: ((userId: number, date: string | null) => void)[] = [];
+
+export function onGoalSettingsChange(listener: (userId: number, date: string | null) => void): void {
+  goalSettingsListeners.push(listener);
+}
+
+function goalSettingsChanged(userId: number, date: string | null = null): void {
+  for (const listener of goalSettingsListeners) {
+    listener(userId, date);
+  }
+}
+
+// Run `fn` in a transaction as one undoable change: every audit record it
+// writes shares a change_id. Nested calls join the enclosing change.
+function inChange<T>(fn: () => T, undoOf: number | null = null): T {
+  if (activeChange) return fn();
+  const db = getDb();
+  let changeId = 0;
+  const result = db.transaction(() => {
+    const { next } = db
+      .prepare("SELECT COALESCE(MAX(change_id), 0) + 1 AS next FROM audit_log")
+      .get() as { next: number };
+    changeId = next;
+    activeChange = { id: next, undoOf };
+    try {
+      return fn();
+    } finally {
+      activeChange = null;
+    }
+  })();
+
+  if (changeListeners.length > 0) {
+    const records = db
+      .prepare("SELECT * FROM audit_log WHERE change_id = ? ORDER BY id")
+      .all(changeId) as AuditRecord[];
+    if (records.length > 0) {
+      for (const listener of changeListeners) listener(records);
+    }
+  }
+  return result;
+}
+
+function recordAudit(
+  userId: number,
+  table: AuditRecord["table_name"],
+  rowId: number,
+  action: AuditRecord["action"],
+  before: object | null,
+  after: object | null
+): void {
+  if (!activeChange) {
+    throw new Error("Audit records must be written inside inChange");
+  }
+  getDb()
+    .prepare(
+      `INSERT INTO audit_log (change_id, user_id, table_name, row_id, action, before, after, undo_of)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      activeChange.id,
+      userId,
+      table,
+      rowId,
+      action,
+      before && JSON.stringify(before),
+      after && JSON.stringify(after),
+      activeChange.undoOf
+    );
+}
+
+function getEntrySnapshot(id: number): EntrySnapshot | null {
+  const db = getDb();
+  const entry = db.prepare("SELECT * FROM food_logs WHERE id = ?").get(id) as FoodLogEntry | undefined;
+  return entry ? { ...entry, nutrients: getEntryNutrients(id) } : null;
+}
+
+// Put an entry back exactly as captured in a snapshot, nutrients included
+function writeEntrySnapshot(snapshot: EntrySnapshot): void {
+  const db = getDb();
+  const fields = [...UPDATABLE_ENTRY_FIELDS, "deleted_at"] as const;
+  db.prepare(`UPDATE food_logs SET ${fields.map((f) => `${f} = ?`).join(", ")} WHERE id = ?`).run(
+    ...fields.map((f) => snapshot[f] ?? null),
+    snapshot.id
+  );
+  db.prepare("DELETE FROM food_log_nutrients WHERE entry_id = ?").run(snapshot.id);
+  saveEntryNutrients(snapshot.id, snapshot.nutrients);
+}
+
+// The most recent change for a profile that is not an undo and has not been undone
+function getLastUndoableChange(userId: number): AuditRecord[] {
+  const db = getDb();
+  const last = db
+    .prepare(
+      `SELECT MAX(change_id) AS change_id FROM audit_log
+       WHERE user_id = ? AND undo_of IS NULL
+         AND change_id NOT IN (SELECT undo_of FROM audit_log WHERE undo_of IS NOT NULL)`
+    )
+    .get(userId) as { change_id: number | null };
+  if (last.change_id === null) return [];
+  return db
+    .prepare("SELECT * FROM audit_log WHERE change_id = ? ORDER BY id")
+    .all(last.change_id) as AuditRecord[];
+}
+
+// Revert the profile's most recent change to food logs or goals. Returns the
+// records of the change that was undone (empty if there is nothing to undo).
+// Undoing again steps further back in history.
+export function undoLastChange(userId: number): AuditRecord[] {
+  const db = getDb();
+  const records = getLastUndoableChange(userId);
+  if (records.length === 0) return [];
+
+  inChange(() => {
+    for (const record of [...records].reverse()) {
+      const before = record.before ? JSON.parse(record.before) : null;
+
+      if (record.table_name === "food_logs") {
+        const current = getEntrySnapshot(record.row_id);
+        if (record.action === "insert") {
+          // Removing a logged entry is itself a soft delete
+          db.prepare("UPDATE food_logs SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?").run(record.row_id);
+        } else {
+          writeEntrySnapshot(before as EntrySnapshot);
+        }
+        const after = getEntrySnapshot(record.row_id);
+        const action = after?.deleted_at ? "delete" : current?.deleted_at ? "restore" : "update";
+        recordAudit(userId, "food_logs", record.row_id, action, current, after);
+      } else if (record.action === "insert") {
+        const current = getGoalVersion(record.row_id);
+        db.prepare("DELETE FROM goal_versions WHERE id = ?").run(record.row_id);
+        recordAudit(userId, "goal_versions", record.row_id, "delete", current, null);
+      } else if (record.action === "delete") {
+        const goals = before as Goals;
+        db.prepare(
+          `INSERT INTO goal_versions (id, user_id, effective_from, daily_calories, protein_g, carbs_g, fat_g, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          goals.id,
+          goals.user_id,
+          goals.effective_from,
+          goals.daily_calories,
+          goals.protein_g,
+          goals.carbs_g,
+          goals.fat_g,
+          goals.updated_at
+        );
+        recordAudit(userId, "goal_versions", record.row_id, "insert", null, goals);
+      }
+    }
+  }, records[0].change_id);
+
+  return records;
+}
+
+// Body metric operations
+// One row per day; logging again fills in or replaces the given measurements
+export function logBodyMetric(
+  userId: number,
+  date: string,
+  metric: Partial<Pick<BodyMetric, "weight_kg" | "body_fat_pct" | "waist_cm" | "notes">>
+): BodyMetric {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO body_metrics (user_id, date, weight_kg, body_fat_pct, waist_cm, notes)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, date) DO UPDATE SET
+       weight_kg = COALESCE(excluded.weight_kg, weight_kg),
+       body_fat_pct = COALESCE(excluded.body_fat_pct, body_fat_pct),
+       waist_cm = COALESCE(excluded.waist_cm, waist_cm),
+       notes = COALESCE(excluded.notes, notes),
+       updated_at = CURRENT_TIMESTAMP`
+  ).run(
+    userId,
+    date,
+    metric.weight_kg ?? null,
+    metric.body_fat_pct ?? null,
+    metric.waist_cm ?? null,
+    metric.notes ?? null
+  );
+
+  return db
+    .prepare("SELECT * FROM body_metrics WHERE user_id = ? AND date = ?")
+    .get(userId, date) as BodyMetric;
+}
+
+export function getBodyMetrics(userId: number, startDate: string, endDate: string): BodyMetric[] {
+  const db = getDb();
+  return db
+    .prepare(
+      "SELECT * FROM body_metrics WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date"
+    )
+    .all(userId, startDate, endDate) as BodyMetric[];
+}
+
+export function deleteBodyMetric(userId: number, date: string): boolean {
+  const db = getDb();
+  return (
+    db.prepare("DELETE FROM body_metrics WHERE user_id = ? AND date = ?").run(userId, date)
+      .changes > 0
+  );
+}
+
+// Favorite food and meal template operations
+
+const SAVED_FOOD_COLUMNS =
+  "food_name, fdc_id, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g";
+
+function savedFoodValues({ food, nutrients }: FoodToLog) {
+  return [
+    food.food_name,
+    food.fdc_id,
+    food.serving_size,
+    food.serving_unit,
+    food.calories,
+    food.protein_g,
+    food.carbs_g,
+    food.fat_g,
+    food.fiber_g,
+    JSON.stringify(nutrients),
+  ];
+}
+
+function toFoodToLog(row: SavedFood & { nutrients: string }): FoodToLog {
+  const { nutrients, ...food } = row;
+  return { food, nutrients: JSON.parse(nutrients) as NutrientAmount[] };
+}
+
+// Foods a profile logged since a date, one row per food with its latest
+// serving, most logged or most recently logged first
+export function getFrequentFoods(
+  userId: number,
+  since: string,
+  sort: "frequent" | "recent",
+  limit: number = 20
+): FrequentFood[] {
+  const db = getDb();
+  const order = sort === "recent" ? "last_date DESC, julianday(logged_at) DESC" : "times_logged DESC, last_date DESC";
+  return db
+    .prepare(
+      `SELECT entry_id, ${SAVED_FOOD_COLUMNS}, times_logged, last_date, favorite_id
+       FROM (
+         SELECT f.id AS entry_id, f.*, fav.id AS favorite_id,
+           COUNT(*) OVER food AS times_logged,
+           MAX(f.date) OVER food AS last_date,
+           ROW_NUMBER() OVER (food ORDER BY f.date DESC, julianday(f.logged_at) DESC, f.id DESC) AS latest
+         FROM food_logs f
+         LEFT JOIN favorite_foods fav ON fav.user_id = f.user_id AND fav.food_name = f.food_name
+         WHERE f.user_id = ? AND f.date >= ? AND f.deleted_at IS NULL
+         WINDOW food AS (PARTITION BY lower(f.food_name), f.fdc_id)
+       )
+       WHERE latest = 1
+       ORDER BY ${order}
+       LIMIT ?`
+    )
+    .all(userId, since, limit) as FrequentFood[];
+}
+
+// Star a food; starring one with the same name again replaces its serving
+export function saveFavoriteFood(userId: number, food: FoodToLog): FavoriteFood {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO favorite_foods (user_id, ${SAVED_FOOD_COLUMNS}, nutrients)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, food_name) DO UPDATE SET
+       fdc_id = excluded.fdc_id,
+       serving_size = excluded.serving_size,
+       serving_unit = excluded.serving_unit,
+       calories = excluded.calories,
+       protein_g = excluded.protein_g,
+       carbs_g = excluded.carbs_g,
+       fat_g = excluded.fat_g,
+       fiber_g = excluded.fiber_g,
+       nutrients = excluded.nutrients`
+  ).run(userId, ...savedFoodValues(food));
+  return db
+    .prepare(
+      `SELECT id, user_id, ${SAVED_FOOD_COLUMNS}, created_at FROM favorite_foods
+       WHERE user_id = ? AND food_name = ?`
+    )
+    .get(userId, food.food.food_name) as FavoriteFood;
+}
+
+export function getFavoriteFoods(userId: number): FavoriteFood[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT id, user_id, ${SAVED_FOOD_COLUMNS}, created_at FROM favorite_foods
+       WHERE user_id = ? ORDER BY food_name`
+    )
+    .all(userId) as FavoriteFood[];
+}
+
+export function getFavoriteFoodToLog(userId: number, id: number): FoodToLog | null {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT ${SAVED_FOOD_COLUMNS}, nutrients FROM favorite_foods WHERE id = ? AND user_id = ?`)
+    .get(id, userId) as (SavedFood & { nutrients: string }) | undefined;
+  return row ? toFoodToLog(row) : null;
+}
+
+export function deleteFavoriteFood(userId: number, id: number): boolean {
+  const db = getDb();
+  return db.prepare("DELETE FROM favorite_foods WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+// Save foods as a named meal, replacing any template with the same name
+export function saveMealTemplate(
+  userId: number,
+  name: string,
+  meal: string | null,
+  foods: FoodToLog[]
+): MealTemplate {
+  const db = getDb();
+  db.transaction(() => {
+    const existing = db
+      .prepare("SELECT id FROM meal_templates WHERE user_id = ? AND name = ?")
+      .get(userId, name.trim()) as { id: number } | undefined;
+    let templateId: number;
+    if (existing) {
+      templateId = existing.id;
+      db.prepare("UPDATE meal_templates SET meal = ? WHERE id = ?").run(meal, templateId);
+      db.prepare("DELETE FROM meal_template_items WHERE template_id = ?").run(templateId);
+    } else {
+      templateId = Number(
+        db
+          .prepare("INSERT INTO meal_templates (user_id, name, meal) VALUES (?, ?, ?)")
+          .run(userId, name.trim(), meal).lastInsertRowid
+      );
+    }
+
+    const insert = db.prepare(
+      `INSERT INTO meal_template_items (template_id, ${SAVED_FOOD_COLUMNS}, nutrients)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const food of foods) {
+      insert.run(templateId, ...savedFoodValues(food));
+    }
+  })();
+  return getMealTemplate(userId, name)!;
+}
+
+export function getMealTemplate(userId: number, name: string): MealTemplate | null {
+  const db = getDb();
+  const template = db
+    .prepare("SELECT * FROM meal_templates WHERE user_id = ? AND name = ?")
+    .get(userId, name.trim()) as Omit<MealTemplate, "items"> | undefined;
+  if (!template) return null;
+
+  const items = db
+    .prepare(`SELECT id, ${SAVED_FOOD_COLUMNS} FROM meal_template_items WHERE template_id = ? ORDER BY id`)
+    .all(template.id) as MealTemplate["items"];
+  return { ...template, items };
+}
+
+export function getMealTemplates(userId: number): MealTemplate[] {
+  const db = getDb();
+  const names = db
+    .prepare("SELECT name FROM meal_templates WHERE user_id = ? ORDER BY name")
+    .all(userId) as { name: string }[];
+  return names.map(({ name }) => getMealTemplate(userId, name)!);
+}
+
+export function getMealTemplateFoodsToLog(templateId: number): FoodToLog[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`SELECT ${SAVED_FOOD_COLUMNS}, nutrients FROM meal_template_items WHERE template_id = ? ORDER BY id`)
+    .all(templateId) as (SavedFood & { nutrients: string })[];
+  return rows.map(toFoodToLog);
+}
+
+export function deleteMealTemplate(userId: number, name: string): boolean {
+  const db = getDb();
+  return db.transaction(() => {
+    const template = db
+      .prepare("SELECT id FROM meal_templates WHERE user_id = ? AND name = ?")
+      .get(userId, name.trim()) as { id: number } | undefined;
+    if (!template) return false;
+    db.prepare("DELETE FROM meal_template_items WHERE template_id = ?").run(template.id);
+    db.prepare("DELETE FROM meal_templates WHERE id = ?").run(template.id);
+    return true;
+  })();
+}
+
+// Custom food operations
+
+// Nutrients are read separately, with getCustomFoodNutrients
+const CUSTOM_FOOD_COLUMNS =
+  "id, name, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g, notes, created_at";
+
+export function createCustomFood(
+  food: Omit<CustomFood, "id" | "created_at">,
+  nutrients: NutrientAmount[] = [] // per serving
+): CustomFood {
   const db = getDb();
 
   const result = db
     .prepare(
-      `INSERT INTO food_logs
-        (date, meal, food_name, fdc_id, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g, notes)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO custom_foods
+        (name, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g, notes, nutrients)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
     .run(
-      entry.date,
-      entry.meal,
-      entry.food_name,
-      entry.fdc_id,
-      entry.serving_size,
-      entry.serving_unit,
-      entry.calories,
-      entry.protein_g,
-      entry.carbs_g,
-      entry.fat_g,
-      entry.fiber_g,
-      entry.notes
+      food.name,
+      food.serving_size,
+      food.serving_unit,
+      food.calories,
+      food.protein_g,
+      food.carbs_g,
+      food.fat_g,
+      food.fiber_g,
+      food.notes,
+      JSON.stringify(nutrients)
     );
 
+  return getCustomFood(Number(result.lastInsertRowid))!;
+}
+
+export function getCustomFood(id: number): CustomFood | null {
+  const db = getDb();
+  return (
+    (db.prepare(`SELECT ${CUSTOM_FOOD_COLUMNS} FROM custom_foods WHERE id = ?`).get(id) as
+      | CustomFood
+      | undefined) ?? null
+  );
+}
+
+// Nutrients of one serving of a custom food
+export function getCustomFoodNutrients(id: number): NutrientAmount[] {
+  const db = getDb();
+  const row = db.prepare("SELECT nutrients FROM custom_foods WHERE id = ?").get(id) as
+    | { nutrients: string }
+    | undefined;
+  return row ? (JSON.parse(row.nutrients) as NutrientAmount[]) : [];
+}
+
+export function getCustomFoods(): CustomFood[] {
+  const db = getDb();
+  return db.prepare(`SELECT ${CUSTOM_FOOD_COLUMNS} FROM custom_foods ORDER BY name`).all() as CustomFood[];
+}
+
+// LIKE pattern matching names that contain `query` literally, for use with
+// ESCAPE '\'
+function containsPattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+export function searchCustomFoods(query: string, limit: number = 10): CustomFood[] {
+  const db = getDb();
   return db
-    .prepare("SELECT * FROM food_logs WHERE id = ?")
-    .get(result.lastInsertRowid) as FoodLogEntry;
+    .prepare(
+      `SELECT ${CUSTOM_FOOD_COLUMNS} FROM custom_foods WHERE name LIKE ? ESCAPE '\\' ORDER BY name LIMIT ?`
+    )
+    .all(containsPattern(query), limit) as CustomFood[];
+}
+
+// Recipe operations
+export function createRecipe(
+  recipe: Omit<Recipe, "id" | "created_at" | keyof NutritionInfo>,
+  ingredients: (Omit<RecipeIngredient, "id" | "recipe_id"> & { nutrients: NutrientAmount[] })[]
+): Recipe {
+  const db = getDb();
+
+  const totals = ingredients.reduce(
+    (sum, i) => ({
+      calories: sum.calories + i.calories,
+      protein_g: sum.protein_g + i.protein_g,
+      carbs_g: sum.carbs_g + i.carbs_g,
+      fat_g: sum.fat_g + i.fat_g,
+      fiber_g: sum.fiber_g + i.fiber_g,
+    }),
+    { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0, fiber_g: 0 }
+  );
+  const perServing = (value: number) => Math.round((value / recipe.servings) * 10) / 10;
+
+  const insert = db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT INTO recipes
+          (name, servings, calories, protein_g, carbs_g, fat_g, fiber_g, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        recipe.name,
+        recipe.servings,
+        Math.round(totals.calories / recipe.servings),
+        perServing(totals.protein_g),
+        perServing(totals.carbs_g),
+        perServing(totals.fat_g),
+        perServing(totals.fiber_g),
+        recipe.notes
+      );
+
+    const recipeId = Number(result.lastInsertRowid);
+    const insertIngredient = db.prepare(
+      `INSERT INTO recipe_ingredients
+        (recipe_id, food_name, fdc_id, custom_food_id, amount, unit, calories, protein_g, carbs_g, fat_g, fiber_g, nutrients)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const i of ingredients) {
+      insertIngredient.run(
+        recipeId,
+        i.food_name,
+        i.fdc_id,
+        i.custom_food_id,
+        i.amount,
+        i.unit,
+        i.calories,
+        i.protein_g,
+        i.carbs_g,
+        i.fat_g,
+        i.fiber_g,
+        JSON.stringify(i.nutrients)
+      );
+    }
+    return recipeId;
+  });
+
+  return getRecipe(insert())!;
 }
 
-export function getDailyLog(date: string): FoodLogEntry[] {
+export function getRecipe(id: number): Recipe | null {
+  const db = getDb();
+  return (
+    (db.prepare("SELECT * FROM recipes WHERE id = ?").get(id) as Recipe | undefined) ?? null
+  );
+}
+
+export function getRecipeIngredients(recipeId: number): RecipeIngredient[] {
   const db = getDb();
   return db
-    .prepare("SELECT * FROM food_logs WHERE date = ? ORDER BY logged_at")
-    .all(date) as FoodLogEntry[];
+    .prepare(
+      `SELECT id, recipe_id, food_name, fdc_id, custom_food_id, amount, unit,
+              calories, protein_g, carbs_g, fat_g, fiber_g
+       FROM recipe_ingredients WHERE recipe_id = ? ORDER BY id`
+    )
+    .all(recipeId) as RecipeIngredient[];
 }
 
-export function getLogsByDateRange(startDate: string, endDate: string): FoodLogEntry[] {
+// Nutrients of one serving of a recipe, summed over its ingredients
+export function getRecipeNutrients(recipe: Recipe): NutrientAmount[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT nutrients FROM recipe_ingredients WHERE recipe_id = ?")
+    .all(recipe.id) as { nutrients: string }[];
+
+  const totals = new Map<number, NutrientAmount>();
+  for (const row of rows) {
+    for (const n of JSON.parse(row.nutrients) as NutrientAmount[]) {
+      const total = totals.get(n.nutrient_id);
+      if (total) {
+        total.amount += n.amount;
+      } else {
+        totals.set(n.nutrient_id, { ...n });
+      }
+    }
+  }
+  return [...totals.values()].map((n) => ({ ...n, amount: n.amount / recipe.servings }));
+}
+
+export function searchRecipes(query: string, limit: number = 10): Recipe[] {
   const db = getDb();
   return db
+    .prepare("SELECT * FROM recipes WHERE name LIKE ? ESCAPE '\\' ORDER BY name LIMIT ?")
+    .all(containsPattern(query), limit) as Recipe[];
+}
+
+// Build an FTS5 prefix query from free text, e.g. "chicken br" -> "chicken"* "br"*
+function toFtsQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map((t) => t.replace(/"/g, ""))
+    .filter(Boolean)
+    .map((t) => `"${t}"*`);
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+// USDA food cache operations
+export function cacheUSDAFood(food: USDAFood, complete: boolean): void {
+  const db = getDb();
+
+  // Never replace a full details record with an abridged search hit
+  db.prepare(
+    `INSERT INTO usda_foods (fdc_id, description, data_type, brand_owner, data, complete, fetched_at)
+     VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(fdc_id) DO UPDATE SET
+       description = excluded.description,
+       data_type = excluded.data_type,
+       brand_owner = excluded.brand_owner,
+       data = excluded.data,
+       complete = excluded.complete,
+       fetched_at = excluded.fetched_at
+     WHERE excluded.complete = 1 OR usda_foods.complete = 0`
+  ).run(
+    food.fdcId,
+    food.description,
+    food.dataType ?? null,
+    food.brandOwner ?? null,
+    JSON.stringify(food),
+    complete ? 1 : 0
+  );
+}
+
+export function getCachedUSDAFood(fdcId: number, ttlDays: number): CachedUSDAFood | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT data, complete, fetched_at, fetched_at >= datetime('now', ?) AS fresh
+       FROM usda_foods WHERE fdc_id = ?`
+    )
+    .get(`-${ttlDays} days`, fdcId) as
+    | { data: string; complete: number; fetched_at: string; fresh: number }
+    | undefined;
+
+  if (!row) return null;
+  return {
+    food: JSON.parse(row.data) as USDAFood,
+    complete: row.complete === 1,
+    fresh: row.fresh === 1,
+    fetched_at: row.fetched_at,
+  };
+}
+
+// Full-text search over cached descriptions and brand owners
+export function searchCachedUSDAFoods(query: string, limit: number = 10): USDAFood[] {
+  const db = getDb();
+  const match = toFtsQuery(query);
+  if (!match) return [];
+
+  const rows = db
     .prepare(
-      "SELECT * FROM food_logs WHERE date >= ? AND date <= ? ORDER BY date, logged_at"
+      `SELECT u.data FROM usda_foods_fts f
+       JOIN usda_foods u ON u.fdc_id = f.rowid
+       WHERE usda_foods_fts MATCH ?
+       ORDER BY bm25(usda_foods_fts)
+       LIMIT ?`
     )
-    .all(startDate, endDate) as FoodLogEntry[];
+    .all(match, limit) as { data: string }[];
+
+  return rows.map((r) => JSON.parse(r.data) as USDAFood);
 }
 
-export function deleteEntry(id: number): boolean {
+// Local USDA dataset operations (see usda-import.ts)
+export function insertDatasetFoods(rows: DatasetFoodRow[]): void {
   const db = getDb();
-  const result = db.prepare("DELETE FROM food_logs WHERE id = ?").run(id);
-  return result.changes > 0;
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO dataset_foods
+      (fdc_id, description, data_type, brand_owner, gtin_upc, ingredients, serving_size, serving_size_unit, household_serving)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    for (const r of rows) {
+      insert.run(
+        r.fdc_id,
+        r.description,
+        r.data_type,
+        r.brand_owner,
+        r.gtin_upc,
+        r.ingredients,
+        r.serving_size,
+        r.serving_size_unit,
+        r.household_serving
+      );
+    }
+  })();
+}
+
+// Fill in label details for branded foods imported from food.csv
+export function updateDatasetBrandedFoods(rows: Omit<DatasetFoodRow, "description" | "data_type">[]): void {
+  const db = getDb();
+  const update = db.prepare(
+    `UPDATE dataset_foods SET
+      brand_owner = ?, gtin_upc = ?, ingredients = ?, serving_size = ?, serving_size_unit = ?, household_serving = ?
+     WHERE fdc_id = ?`
+  );
+  db.transaction(() => {
+    for (const r of rows) {
+      update.run(
+        r.brand_owner,
+        r.gtin_upc,
+        r.ingredients,
+        r.serving_size,
+        r.serving_size_unit,
+        r.household_serving,
+        r.fdc_id
+      );
+    }
+  })();
+}
+
+export function insertDatasetNutrients(rows: DatasetNutrientRow[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    "INSERT OR REPLACE INTO dataset_nutrients (id, name, number, unit_name) VALUES (?, ?, ?, ?)"
+  );
+  db.transaction(() => {
+    for (const r of rows) {
+      insert.run(r.id, r.name, r.number, r.unit_name);
+    }
+  })();
+}
+
+export function insertDatasetFoodNutrients(rows: DatasetFoodNutrientRow[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    "INSERT OR REPLACE INTO dataset_food_nutrients (fdc_id, nutrient_id, amount) VALUES (?, ?, ?)"
+  );
+  db.transaction(() => {
+    for (const r of rows) {
+      insert.run(r.fdc_id, r.nutrient_id, r.amount);
+    }
+  })();
+}
+
+export function insertDatasetPortions(rows: DatasetPortionRow[]): void {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO dataset_food_portions
+      (id, fdc_id, amount, gram_weight, modifier, portion_description, measure_unit)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    for (const r of rows) {
+      insert.run(
+        r.id,
+        r.fdc_id,
+        r.amount,
+        r.gram_weight,
+        r.modifier,
+        r.portion_description,
+        r.measure_unit
+      );
+    }
+  })();
+}
+
+// Replace all portions of the given foods. JSON downloads may leave portion
+// ids out, so re-importing one would otherwise add every such portion again.
+export function replaceDatasetPortions(fdcIds: number[], rows: DatasetPortionRow[]): void {
+  const db = getDb();
+  const remove = db.prepare("DELETE FROM dataset_food_portions WHERE fdc_id = ?");
+  db.transaction(() => {
+    for (const fdcId of fdcIds) {
+      remove.run(fdcId);
+    }
+    insertDatasetPortions(rows);
+  })();
+}
+
+export function rebuildDatasetIndex(): void {
+  const db = getDb();
+  db.exec("INSERT INTO dataset_foods_fts(dataset_foods_fts) VALUES ('rebuild')");
+}
+
+export function hasDataset(): boolean {
+  const db = getDb();
+  return db.prepare("SELECT 1 FROM dataset_foods LIMIT 1").get() !== undefined;
+}
+
+function toUSDAFood(row: DatasetFoodRow, withPortions: boolean): USDAFood {
+  const db = getDb();
+
+  const nutrients = db
+    .prepare(
+      `SELECT fn.nutrient_id, fn.amount, n.name, n.number, n.unit_name
+       FROM dataset_food_nutrients fn
+       LEFT JOIN dataset_nutrients n ON n.id = fn.nutrient_id
+       WHERE fn.fdc_id = ?`
+    )
+    .all(row.fdc_id) as {
+    nutrient_id: number;
+    amount: number;
+    name: string | null;
+    number: string | null;
+    unit_name: string | null;
+  }[];
+
+  const food: USDAFood = {
+    fdcId: row.fdc_id,
+    description: row.description,
+    dataType: row.data_type,
+    brandOwner: row.brand_owner ?? undefined,
+    gtinUpc: row.gtin_upc ?? undefined,
+    ingredients: row.ingredients ?? undefined,
+    servingSize: row.serving_size ?? undefined,
+    servingSizeUnit: row.serving_size_unit ?? undefined,
+    householdServingFullText: row.household_serving ?? undefined,
+    foodNutrients: nutrients.map((n) => ({
+      nutrientId: n.nutrient_id,
+      nutrientName: n.name ?? "",
+      nutrientNumber: n.number ?? "",
+      unitName: n.unit_name ?? "",
+      value: n.amount,
+    })),
+  };
+
+  if (withPortions) {
+    const portions = db
+      .prepare("SELECT * FROM dataset_food_portions WHERE fdc_id = ? ORDER BY id")
+      .all(row.fdc_id) as DatasetPortionRow[];
+    food.foodPortions = portions.map((p) => ({
+      id: p.id ?? undefined,
+      amount: p.amount ?? undefined,
+      gramWeight: p.gram_weight,
+      modifier: p.modifier ?? undefined,
+      portionDescription: p.portion_description ?? undefined,
+      measureUnit: p.measure_unit ? { name: p.measure_unit } : undefined,
+    }));
+  }
+
+  return food;
+}
+
+export function getDatasetFood(fdcId: number): USDAFood | null {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM dataset_foods WHERE fdc_id = ?")
+    .get(fdcId) as DatasetFoodRow | undefined;
+  return row ? toUSDAFood(row, true) : null;
+}
+
+export function searchDatasetFoods(query: string, limit: number = 10): USDAFood[] {
+  const db = getDb();
+  const match = toFtsQuery(query);
+  if (!match) return [];
+
+  const rows = db
+    .prepare(
+      `SELECT d.* FROM dataset_foods_fts f
+       JOIN dataset_foods d ON d.fdc_id = f.rowid
+       WHERE dataset_foods_fts MATCH ?
+       ORDER BY bm25(dataset_foods_fts)
+       LIMIT ?`
+    )
+    .all(match, limit) as DatasetFoodRow[];
+
+  return rows.map((row) => toUSDAFood(row, false));
+}
+
+// FDC IDs of dataset and cached foods with a barcode key (see barcodes.ts),
+// newest (highest ID) first
+export function findFdcIdsByBarcode(key: string): number[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT fdc_id FROM dataset_foods WHERE ltrim(gtin_upc, '0') = ?
+       UNION
+       SELECT fdc_id FROM usda_foods WHERE ltrim(json_extract(data, '$.gtinUpc'), '0') = ?
+       ORDER BY fdc_id DESC`
+    )
+    .all(key, key) as { fdc_id: number }[];
+  return rows.map((r) => r.fdc_id);
 }
 
-export function calculateTotals(entries: FoodLogEntry[]): NutritionInfo {
-  return entries.reduce(
+export function calculateTotals(
+  entries: Pick<FoodLogEntry, "calories" | "protein_g" | "carbs_g" | "fat_g" | "fiber_g">[]
+): NutritionInfo {
+  return entries.reduce<NutritionInfo>(
     (totals, entry) => ({
       calories: totals.calories + (entry.calories || 0),
       protein_g: totals.protein_g + (entry.protein_g || 0),
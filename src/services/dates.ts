@@ -0,0 +1,78 @@
+// Calendar dates (YYYY-MM-DD) and timestamps resolved in an IANA time zone
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A real calendar date in YYYY-MM-DD format (rejects e.g. 2025-02-30)
+export function isValidDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// FOOD_TRACKER_TIMEZONE, or the zone of the machine the server runs on
+export function getServerTimeZone(): string {
+  const configured = process.env.FOOD_TRACKER_TIMEZONE;
+  if (configured) {
+    if (!isValidTimeZone(configured)) {
+      throw new Error(`FOOD_TRACKER_TIMEZONE "${configured}" is not a valid IANA time zone`);
+    }
+    return configured;
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Wall-clock fields of an instant in a time zone
+function zonedParts(instant: Date, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  return Object.fromEntries(parts.map((p) => [p.type, p.value]));
+}
+
+// The calendar date in a time zone, e.g. still yesterday in Los Angeles when
+// it is already tomorrow in UTC
+export function todayIn(timeZone: string, instant: Date = new Date()): string {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return `${year}-${month}-${day}`;
+}
+
+// ISO 8601 timestamp with the zone's UTC offset, e.g. 2026-10-19T20:15:03-07:00
+export function timestampIn(timeZone: string, instant: Date = new Date()): string {
+  const p = zonedParts(instant, timeZone);
+  const wallClock = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  const offsetMinutes = Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / 60_000);
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, "0");
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}:${p.second}${sign}${hours}:${minutes}`;
+}
+
+// Add (or subtract) days from a YYYY-MM-DD date
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+// Add (or subtract) calendar months from a YYYY-MM-DD date
+export function shiftMonths(date: string, months: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCMonth(shifted.getUTCMonth() + months);
+  return shifted.toISOString().split("T")[0];
+}
@@ -0,0 +1,97 @@
+export type Sex = "male" | "female";
+
+export const ACTIVITY_LEVELS = ["sedentary", "light", "moderate", "active", "very_active"] as const;
+
+export type ActivityLevel = (typeof ACTIVITY_LEVELS)[number];
+
+// Multipliers applied to BMR to estimate total daily energy expenditure
+export const ACTIVITY_FACTORS: Record<ActivityLevel, { factor: number; description: string }> = {
+  sedentary: { factor: 1.2, description: "little or no exercise" },
+  light: { factor: 1.375, description: "exercise 1-3 days/week" },
+  moderate: { factor: 1.55, description: "exercise 3-5 days/week" },
+  active: { factor: 1.725, description: "hard exercise 6-7 days/week" },
+  very_active: { factor: 1.9, description: "physical job or twice-daily training" },
+};
+
+// Energy per gram of each macro (Atwater factors)
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+// Approximate energy content of a kilogram of body weight change
+export const CALORIES_PER_KG = 7700;
+
+// Commonly cited lower bounds for unsupervised calorie targets
+const MINIMUM_CALORIES: Record<Sex, number> = { male: 1500, female: 1200 };
+
+export interface MacroSplit {
+  protein: number; // percent of calories
+  carbs: number;
+  fat: number;
+}
+
+export interface MacroGrams {
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+}
+
+export interface BodyStats {
+  sex: Sex;
+  age: number;
+  height_cm: number;
+  weight_kg: number;
+}
+
+export interface EnergyEstimate {
+  bmr: number;
+  tdee: number;
+  target_calories: number;
+  daily_adjustment: number;
+  warning: string | null;
+}
+
+// Convert a macro split in percent of calories to daily grams
+export function macroSplitToGrams(calories: number, split: MacroSplit): MacroGrams {
+  const total = split.protein + split.carbs + split.fat;
+  if (Math.abs(total - 100) > 1) {
+    throw new Error(`Macro split must add up to 100% (got ${total}%)`);
+  }
+  return {
+    protein_g: Math.round((calories * split.protein) / 100 / CALORIES_PER_GRAM.protein),
+    carbs_g: Math.round((calories * split.carbs) / 100 / CALORIES_PER_GRAM.carbs),
+    fat_g: Math.round((calories * split.fat) / 100 / CALORIES_PER_GRAM.fat),
+  };
+}
+
+// Basal metabolic rate using the Mifflin-St Jeor equation
+export function calculateBMR(stats: BodyStats): number {
+  const base = 10 * stats.weight_kg + 6.25 * stats.height_cm - 5 * stats.age;
+  return base + (stats.sex === "male" ? 5 : -161);
+}
+
+// Estimate maintenance calories and a target for a weekly weight change in kg
+// (negative to lose weight)
+export function estimateEnergy(
+  stats: BodyStats,
+  activity: ActivityLevel,
+  weeklyChangeKg: number = 0
+): EnergyEstimate {
+  const bmr = calculateBMR(stats);
+  const tdee = bmr * ACTIVITY_FACTORS[activity].factor;
+  const dailyAdjustment = (weeklyChangeKg * CALORIES_PER_KG) / 7;
+  const target = Math.round(tdee + dailyAdjustment);
+
+  let warning: string | null = null;
+  if (target < MINIMUM_CALORIES[stats.sex]) {
+    warning = `Target is below ${MINIMUM_CALORIES[stats.sex]} cal/day; consider a slower rate of loss.`;
+  } else if (Math.abs(weeklyChangeKg) > stats.weight_kg * 0.01) {
+    warning = "Weekly change exceeds 1% of body weight; a slower rate is easier to sustain.";
+  }
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    target_calories: target,
+    daily_adjustment: Math.round(dailyAdjustment),
+    warning,
+  };
+}
@@ -0,0 +1,228 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { FoodLogEntry, NutrientAmount } from "../types.js";
+import {
+  getCustomFoods,
+  getEntryNutrients,
+  getGoalHistory,
+  getLogsByDateRange,
+  getNutrientGoals,
+} from "./database.js";
+import { formatCsv } from "./csv.js";
+import { DAILY_VALUES, TRACKED_NUTRIENTS } from "./nutrients.js";
+
+export const EXPORT_FORMATS = ["csv", "json", "myfitnesspal"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const DEFAULT_EXPORT_DIR = path.join(os.homedir(), "food-tracker-exports");
+
+export interface ExportOptions {
+  userId: number;
+  profileName: string;
+  startDate: string;
+  endDate: string;
+  format: ExportFormat;
+  outputDir: string;
+}
+
+export interface ExportResult {
+  files: string[];
+  entries: number;
+  goals: number;
+  customFoods: number;
+}
+
+const FOOD_LOG_COLUMNS = [
+  "id",
+  "date",
+  "meal",
+  "food_name",
+  "fdc_id",
+  "serving_size",
+  "serving_unit",
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fat_g",
+  "fiber_g",
+  "notes",
+  "logged_at",
+];
+
+// Tracked nutrients as extra food log columns, e.g. "sodium_mg"
+export const NUTRIENT_COLUMNS = TRACKED_NUTRIENTS.map((n) => ({
+  id: n.id,
+  key: n.key,
+  column: `${n.key}_${n.unit === "µg" ? "mcg" : n.unit}`,
+}));
+
+const GOAL_COLUMNS = ["effective_from", "daily_calories", "protein_g", "carbs_g", "fat_g"];
+
+const CUSTOM_FOOD_COLUMNS = [
+  "id",
+  "name",
+  "serving_size",
+  "serving_unit",
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fat_g",
+  "fiber_g",
+  "notes",
+];
+
+// Column layout of the MyFitnessPal "Nutrition" export, one row per meal per
+// day. Vitamin A, vitamin C, calcium and iron are % of daily value. Note lists
+// the meal's foods, which the history importer reads back as the entry name.
+const MFP_COLUMNS = [
+  "Date",
+  "Meal",
+  "Calories",
+  "Fat (g)",
+  "Saturated Fat",
+  "Polyunsaturated Fat",
+  "Monounsaturated Fat",
+  "Trans Fat",
+  "Cholesterol",
+  "Sodium (mg)",
+  "Potassium",
+  "Carbohydrates (g)",
+  "Fiber",
+  "Sugar",
+  "Protein (g)",
+  "Vitamin A",
+  "Vitamin C",
+  "Calcium",
+  "Iron",
+  "Note",
+];
+
+// MyFitnessPal columns filled from stored USDA nutrient IDs
+export const MFP_NUTRIENT_COLUMNS: Record<string, number> = {
+  "Saturated Fat": 1258,
+  "Polyunsaturated Fat": 1293,
+  "Monounsaturated Fat": 1292,
+  "Trans Fat": 1257,
+  Cholesterol: 1253,
+  "Sodium (mg)": 1093,
+  Potassium: 1092,
+  Sugar: 2000,
+};
+
+// MyFitnessPal columns reported as % of daily value
+export const MFP_PERCENT_COLUMNS: Record<string, number> = {
+  "Vitamin A": 1106,
+  "Vitamin C": 1162,
+  Calcium: 1087,
+  Iron: 1089,
+};
+
+// MyFitnessPal has no unassigned meal, so entries without one go to snacks
+const MFP_MEALS: Record<string, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snack: "Snacks",
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Write food logs, goals and custom foods for a date range to `outputDir`
+export function exportData(options: ExportOptions): ExportResult {
+  const { userId, startDate, endDate, format } = options;
+  const entries = getLogsByDateRange(userId, startDate, endDate);
+  const nutrientsByEntry = new Map(entries.map((e) => [e.id, getEntryNutrients(e.id)]));
+  const goals = getGoalHistory(userId);
+  const customFoods = getCustomFoods();
+
+  fs.mkdirSync(options.outputDir, { recursive: true });
+  const profile = options.profileName.replace(/[^a-z0-9_-]+/gi, "_");
+  const base = path.join(options.outputDir, `food-tracker-${profile}-${startDate}-to-${endDate}`);
+  const files: string[] = [];
+
+  if (format === "json") {
+    const file = `${base}.json`;
+    const data = {
+      profile: options.profileName,
+      start_date: startDate,
+      end_date: endDate,
+      exported_at: new Date().toISOString(),
+      food_logs: entries.map((e) => ({ ...e, nutrients: nutrientsByEntry.get(e.id) ?? [] })),
+      goals,
+      nutrient_goals: getNutrientGoals(userId),
+      custom_foods: customFoods,
+    };
+    fs.writeFileSync(file, JSON.stringify(data, null, 2));
+    files.push(file);
+  } else if (format === "csv") {
+    const logRows = entries.map((e) => {
+      const row: Record<string, string | number | null> = { ...e };
+      const nutrients = nutrientsByEntry.get(e.id) ?? [];
+      for (const { id, column } of NUTRIENT_COLUMNS) {
+        row[column] = nutrients.find((n) => n.nutrient_id === id)?.amount ?? null;
+      }
+      return row;
+    });
+    const logColumns = [...FOOD_LOG_COLUMNS, ...NUTRIENT_COLUMNS.map((c) => c.column)];
+    const outputs: [string, string][] = [
+      [`${base}-food-logs.csv`, formatCsv(logColumns, logRows)],
+      [`${base}-goals.csv`, formatCsv(GOAL_COLUMNS, goals.map((g) => ({ ...g })))],
+      [`${base}-custom-foods.csv`, formatCsv(CUSTOM_FOOD_COLUMNS, customFoods.map((f) => ({ ...f })))],
+    ];
+    for (const [file, content] of outputs) {
+      fs.writeFileSync(file, content);
+      files.push(file);
+    }
+  } else {
+    const file = `${base}-myfitnesspal.csv`;
+    fs.writeFileSync(file, formatCsv(MFP_COLUMNS, toMyFitnessPalRows(entries, nutrientsByEntry)));
+    files.push(file);
+  }
+
+  return { files, entries: entries.length, goals: goals.length, customFoods: customFoods.length };
+}
+
+// Sum entries into one row per date and meal. A value no entry of the meal
+// recorded is left blank rather than written as 0.
+function toMyFitnessPalRows(
+  entries: FoodLogEntry[],
+  nutrientsByEntry: Map<number, NutrientAmount[]>
+): Record<string, string | number | null>[] {
+  const groups = new Map<string, FoodLogEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.date}|${MFP_MEALS[entry.meal ?? "snack"] ?? "Snacks"}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  return [...groups.entries()].map(([key, group]) => {
+    const [date, meal] = key.split("|");
+    const sum = (value: (e: FoodLogEntry) => number | null | undefined) => {
+      const known = group.map(value).filter((v): v is number => v !== null && v !== undefined);
+      return known.length > 0 ? known.reduce((total, v) => total + v, 0) : null;
+    };
+    const sumNutrient = (id: number) =>
+      sum((e) => nutrientsByEntry.get(e.id)?.find((n) => n.nutrient_id === id)?.amount);
+    const rounded = (value: number | null) => (value === null ? null : round(value));
+
+    const row: Record<string, string | number | null> = {
+      Date: date,
+      Meal: meal,
+      Calories: Math.round(sum((e) => e.calories) ?? 0),
+      "Fat (g)": rounded(sum((e) => e.fat_g)),
+      "Carbohydrates (g)": rounded(sum((e) => e.carbs_g)),
+      Fiber: rounded(sum((e) => e.fiber_g)),
+      "Protein (g)": rounded(sum((e) => e.protein_g)),
+      Note: group.map((e) => e.food_name).join("; "),
+    };
+    for (const [column, id] of Object.entries(MFP_NUTRIENT_COLUMNS)) {
+      row[column] = rounded(sumNutrient(id));
+    }
+    for (const [column, id] of Object.entries(MFP_PERCENT_COLUMNS)) {
+      const amount = sumNutrient(id);
+      row[column] = amount === null ? null : Math.round((amount / DAILY_VALUES[id]) * 100);
+    }
+    return row;
+  });
+}
@@ -0,0 +1,95 @@
+import type { FoodLogEntry, FoodToLog, SavedFood } from "../types.js";
+import {
+  getDailyLog,
+  getEntry,
+  getEntryNutrients,
+  getFavoriteFoodToLog,
+  getMealTemplate,
+  getMealTemplateFoodsToLog,
+  logFoods,
+} from "./database.js";
+
+// What to log again: one past entry, a starred food, a saved meal template,
+// or everything logged on a date (optionally only one meal of it)
+export type RelogSource =
+  | { entryId: number }
+  | { favoriteId: number }
+  | { template: string }
+  | { fromDate: string; fromMeal: string | null };
+
+export interface RelogOptions {
+  userId: number;
+  date: string;
+  meal: string | null; // overrides the source's meal when set
+  servings: number; // multiplier applied to each food's serving and nutrition
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function entryToLog(entry: FoodLogEntry): FoodToLog {
+  const { food_name, fdc_id, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g } = entry;
+  return {
+    food: { food_name, fdc_id, serving_size, serving_unit, calories, protein_g, carbs_g, fat_g, fiber_g },
+    nutrients: getEntryNutrients(entry.id),
+  };
+}
+
+// Entries of a day, optionally only those of one meal
+export function mealEntries(userId: number, date: string, meal: string | null): FoodLogEntry[] {
+  return getDailyLog(userId, date).filter((e) => !meal || e.meal?.toLowerCase() === meal.toLowerCase());
+}
+
+function scaleFood({ food, nutrients }: FoodToLog, servings: number): FoodToLog {
+  if (servings === 1) return { food, nutrients };
+  const scale = (value: number | null) => (value === null ? null : round1(value * servings));
+  const scaled: SavedFood = {
+    ...food,
+    serving_size: Math.round(food.serving_size * servings * 100) / 100,
+    calories: Math.round(food.calories * servings),
+    protein_g: scale(food.protein_g),
+    carbs_g: scale(food.carbs_g),
+    fat_g: scale(food.fat_g),
+    fiber_g: scale(food.fiber_g),
+  };
+  return { food: scaled, nutrients: nutrients.map((n) => ({ ...n, amount: n.amount * servings })) };
+}
+
+// Resolve a source to its foods, each with the meal it was eaten at
+function resolveSource(userId: number, source: RelogSource): (FoodToLog & { meal: string | null })[] {
+  if ("entryId" in source) {
+    const entry = getEntry(userId, source.entryId);
+    if (!entry) throw new Error(`Entry ${source.entryId} not found`);
+    return [{ ...entryToLog(entry), meal: entry.meal }];
+  }
+  if ("favoriteId" in source) {
+    const favorite = getFavoriteFoodToLog(userId, source.favoriteId);
+    if (!favorite) throw new Error(`Favorite ${source.favoriteId} not found`);
+    return [{ ...favorite, meal: null }];
+  }
+  if ("template" in source) {
+    const template = getMealTemplate(userId, source.template);
+    if (!template) throw new Error(`Meal template "${source.template}" not found`);
+    return getMealTemplateFoodsToLog(template.id).map((food) => ({ ...food, meal: template.meal }));
+  }
+
+  const entries = mealEntries(userId, source.fromDate, source.fromMeal);
+  if (entries.length === 0) {
+    throw new Error(`Nothing logged${source.fromMeal ? ` for ${source.fromMeal}` : ""} on ${source.fromDate}`);
+  }
+  return entries.map((entry) => ({ ...entryToLog(entry), meal: entry.meal }));
+}
+
+// Log the foods of a source again as one undoable change. Nutrition is copied
+// from the source rather than looked up, so re-logging works offline and
+// matches what was eaten before.
+export function relog(source: RelogSource, options: RelogOptions): FoodLogEntry[] {
+  return logFoods(
+    resolveSource(options.userId, source).map(({ meal, ...food }) => {
+      const { food: scaled, nutrients } = scaleFood(food, options.servings);
+      return {
+        entry: { user_id: options.userId, date: options.date, meal: options.meal ?? meal, notes: null, ...scaled },
+        nutrients,
+      };
+    })
+  );
+}
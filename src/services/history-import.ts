@@ -0,0 +1,393 @@
+import fs from "fs";
+import type { FoodLogEntry, NutrientAmount } from "../types.js";
+import { getLogsByDateRange, logFoods } from "./database.js";
+import { readCsv } from "./csv.js";
+import { isValidDate } from "./dates.js";
+import { MFP_NUTRIENT_COLUMNS, MFP_PERCENT_COLUMNS, NUTRIENT_COLUMNS } from "./export.js";
+import { DAILY_VALUES, findNutrient } from "./nutrients.js";
+import { normalizeUnit } from "./units.js";
+
+export const HISTORY_FORMATS = ["auto", "myfitnesspal", "cronometer", "generic"] as const;
+
+export type HistoryFormat = (typeof HISTORY_FORMATS)[number];
+
+// Food log fields that can be read from a CSV column
+export const IMPORT_FIELDS = [
+  "date",
+  "meal",
+  "food_name",
+  "amount",
+  "unit",
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fat_g",
+  "fiber_g",
+  "notes",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+interface NutrientColumn {
+  column: string;
+  nutrientId: number;
+  factor?: number; // multiplier from the column's unit to the nutrient's unit
+}
+
+interface ImportLayout {
+  name: Exclude<HistoryFormat, "auto">;
+  // Candidate header names for each field, matched case-insensitively
+  columns: Partial<Record<ImportField, string[]>>;
+  nutrients: NutrientColumn[];
+  // Headers that identify the layout when auto-detecting
+  signature: string[];
+  // Name used for rows without a food name column (e.g. meal totals)
+  defaultFoodName?: (meal: string | null) => string;
+}
+
+// MyFitnessPal "Nutrition" export: one row of totals per meal per day. Our
+// own export lists the meal's foods in Note, so that names the entry.
+const MYFITNESSPAL_LAYOUT: ImportLayout = {
+  name: "myfitnesspal",
+  columns: {
+    date: ["Date"],
+    meal: ["Meal"],
+    food_name: ["Note"],
+    calories: ["Calories"],
+    protein_g: ["Protein (g)"],
+    carbs_g: ["Carbohydrates (g)"],
+    fat_g: ["Fat (g)"],
+    fiber_g: ["Fiber"],
+  },
+  nutrients: [
+    ...Object.entries(MFP_NUTRIENT_COLUMNS).map(([column, nutrientId]) => ({ column, nutrientId })),
+    ...Object.entries(MFP_PERCENT_COLUMNS).map(([column, nutrientId]) => ({
+      column,
+      nutrientId,
+      factor: DAILY_VALUES[nutrientId] / 100,
+    })),
+  ],
+  signature: ["Date", "Meal", "Carbohydrates (g)"],
+  defaultFoodName: (meal) => `MyFitnessPal ${meal ?? "meal"} total`,
+};
+
+// Cronometer "Servings" export: one row per food
+const CRONOMETER_LAYOUT: ImportLayout = {
+  name: "cronometer",
+  columns: {
+    date: ["Day", "Date"],
+    meal: ["Group", "Meal"],
+    food_name: ["Food Name"],
+    amount: ["Amount"],
+    unit: ["Unit"],
+    calories: ["Energy (kcal)"],
+    protein_g: ["Protein (g)"],
+    carbs_g: ["Carbs (g)"],
+    fat_g: ["Fat (g)"],
+    fiber_g: ["Fiber (g)"],
+    notes: ["Note", "Notes"],
+  },
+  nutrients: [
+    { column: "Sodium (mg)", nutrientId: 1093 },
+    { column: "Sugars (g)", nutrientId: 2000 },
+    { column: "Added Sugars (g)", nutrientId: 1235 },
+    { column: "Saturated (g)", nutrientId: 1258 },
+    { column: "Trans-Fats (g)", nutrientId: 1257 },
+    { column: "Cholesterol (mg)", nutrientId: 1253 },
+    { column: "Potassium (mg)", nutrientId: 1092 },
+    { column: "Calcium (mg)", nutrientId: 1087 },
+    { column: "Iron (mg)", nutrientId: 1089 },
+    { column: "Magnesium (mg)", nutrientId: 1090 },
+    { column: "Zinc (mg)", nutrientId: 1095 },
+    { column: "Vitamin A (µg)", nutrientId: 1106 },
+    { column: "Vitamin C (mg)", nutrientId: 1162 },
+    { column: "Vitamin D (IU)", nutrientId: 1114, factor: 0.025 },
+    { column: "Vitamin E (mg)", nutrientId: 1109 },
+    { column: "Vitamin K (µg)", nutrientId: 1185 },
+    { column: "B12 (Cobalamin) (µg)", nutrientId: 1178 },
+    { column: "Folate (µg)", nutrientId: 1177 },
+  ],
+  signature: ["Food Name", "Energy (kcal)"],
+};
+
+// This server's own CSV export (see export.ts), also the base for custom mappings
+const GENERIC_LAYOUT: ImportLayout = {
+  name: "generic",
+  columns: {
+    date: ["date"],
+    meal: ["meal"],
+    food_name: ["food_name", "food", "name"],
+    amount: ["serving_size", "amount", "quantity"],
+    unit: ["serving_unit", "unit"],
+    calories: ["calories", "kcal", "energy"],
+    protein_g: ["protein_g", "protein"],
+    carbs_g: ["carbs_g", "carbs", "carbohydrates"],
+    fat_g: ["fat_g", "fat"],
+    fiber_g: ["fiber_g", "fiber"],
+    notes: ["notes", "note"],
+  },
+  nutrients: NUTRIENT_COLUMNS.map((c) => ({ column: c.column, nutrientId: c.id })),
+  signature: ["date", "food_name", "calories"],
+};
+
+const LAYOUTS = [CRONOMETER_LAYOUT, MYFITNESSPAL_LAYOUT, GENERIC_LAYOUT];
+
+export interface HistoryImportOptions {
+  userId: number;
+  format: HistoryFormat;
+  columnMap?: Partial<Record<ImportField, string>>;
+  dryRun: boolean;
+  skipDuplicates: boolean;
+}
+
+export interface ImportRow {
+  row: number;
+  entry: Omit<FoodLogEntry, "id" | "logged_at">;
+  nutrients: NutrientAmount[];
+}
+
+export interface HistoryImportResult {
+  format: string;
+  total: number;
+  rows: ImportRow[]; // rows that were (or, in a dry run, would be) imported
+  invalid: { row: number; error: string }[];
+  duplicates: { row: number; date: string; food_name: string }[]; // already in food_logs
+  imported: number;
+}
+
+// Parse a food history CSV exported by another tracker, validate each row,
+// report duplicates and insert everything in one transaction
+export async function importFoodHistory(
+  file: string,
+  options: HistoryImportOptions
+): Promise<HistoryImportResult> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+
+  const records: Record<string, string>[] = [];
+  for await (const record of readCsv(file)) {
+    records.push(record);
+  }
+  if (records.length === 0) {
+    throw new Error(`No rows found in ${file}`);
+  }
+
+  const headers = Object.keys(records[0]);
+  const layout = selectLayout(headers, options.format, options.columnMap);
+  const columns = resolveColumns(headers, layout, options.columnMap);
+  if (!columns.date || !columns.calories) {
+    throw new Error(
+      `Could not find date and calories columns for ${layout.name} format. ` +
+        `Columns found: ${headers.join(", ")}. Map them with column_map.`
+    );
+  }
+
+  const valid: ImportRow[] = [];
+  const invalid: HistoryImportResult["invalid"] = [];
+  records.forEach((record, i) => {
+    // Row 1 is the header
+    const row = i + 2;
+    try {
+      valid.push(parseRow(record, row, columns, layout, options.userId));
+    } catch (error) {
+      invalid.push({ row, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  const { rows, duplicates } = findDuplicates(valid, options.userId, options.skipDuplicates);
+  const imported = options.dryRun ? 0 : logFoods(rows).length;
+
+  return { format: layout.name, total: records.length, rows, invalid, duplicates, imported };
+}
+
+function findHeader(headers: string[], candidates: string[]): string | undefined {
+  const lower = candidates.map((c) => c.toLowerCase());
+  return headers.find((h) => lower.includes(h.trim().toLowerCase()));
+}
+
+function selectLayout(
+  headers: string[],
+  format: HistoryFormat,
+  columnMap: HistoryImportOptions["columnMap"]
+): ImportLayout {
+  if (format !== "auto") {
+    return LAYOUTS.find((l) => l.name === format)!;
+  }
+  const detected = LAYOUTS.find((l) => l.signature.every((s) => findHeader(headers, [s])));
+  if (detected) return detected;
+  if (columnMap && Object.keys(columnMap).length > 0) return GENERIC_LAYOUT;
+  throw new Error(
+    `Unrecognized CSV layout. Columns found: ${headers.join(", ")}. ` +
+      `Pass format or a column_map naming the date, food and calories columns.`
+  );
+}
+
+// Header actually used for each field; explicit mappings win over the layout's defaults
+function resolveColumns(
+  headers: string[],
+  layout: ImportLayout,
+  columnMap: HistoryImportOptions["columnMap"] = {}
+): Partial<Record<ImportField, string>> {
+  const columns: Partial<Record<ImportField, string>> = {};
+  for (const field of IMPORT_FIELDS) {
+    const mapped = columnMap[field];
+    if (mapped !== undefined) {
+      const header = findHeader(headers, [mapped]);
+      if (!header) {
+        throw new Error(`Column "${mapped}" mapped to ${field} is not in the file`);
+      }
+      columns[field] = header;
+    } else {
+      columns[field] = findHeader(headers, layout.columns[field] ?? []);
+    }
+  }
+  return columns;
+}
+
+// Accept YYYY-MM-DD (optionally with a time) and US-style M/D/YYYY
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  let date: string | null = null;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (iso) {
+    date = `${iso[1]}-${iso[2].padStart(2, "0")}-${iso[3].padStart(2, "0")}`;
+  } else if (us) {
+    date = `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  }
+
+  // Reject dates like 2024-02-30 that Date would roll over
+  return date && isValidDate(date) ? date : null;
+}
+
+function parseMeal(value: string | undefined): FoodLogEntry["meal"] {
+  const meal = value?.trim().toLowerCase() ?? "";
+  if (meal.startsWith("breakfast")) return "breakfast";
+  if (meal.startsWith("lunch")) return "lunch";
+  if (meal.startsWith("dinner") || meal.startsWith("supper")) return "dinner";
+  if (meal.startsWith("snack")) return "snack";
+  return null;
+}
+
+// Numbers may carry thousands separators ("1,234")
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = Number(value.replace(/,/g, "").trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Cronometer writes amounts with their unit, e.g. "1.50 cup" or "150.00 g"
+function parseQuantity(
+  amount: string | undefined,
+  unit: string | undefined
+): { size: number; unit: string } {
+  const match = amount?.trim().match(/^([\d.,]+)\s*(.*)$/);
+  const size = match ? parseNumber(match[1]) : null;
+  const unitText = unit?.trim() || match?.[2]?.trim() || "serving";
+  return { size: size !== null && size > 0 ? size : 1, unit: normalizeUnit(unitText) };
+}
+
+function parseRow(
+  record: Record<string, string>,
+  row: number,
+  columns: Partial<Record<ImportField, string>>,
+  layout: ImportLayout,
+  userId: number
+): ImportRow {
+  const value = (field: ImportField) => (columns[field] ? record[columns[field]!] : undefined);
+
+  const date = parseDate(value("date") ?? "");
+  if (!date) {
+    throw new Error(`Invalid date "${value("date") ?? ""}"`);
+  }
+
+  const calories = parseNumber(value("calories"));
+  if (calories === null || calories < 0) {
+    throw new Error(`Invalid calories "${value("calories") ?? ""}"`);
+  }
+
+  const meal = parseMeal(value("meal"));
+  const foodName = value("food_name")?.trim() || layout.defaultFoodName?.(value("meal")?.trim() || null);
+  if (!foodName) {
+    throw new Error("Missing food name");
+  }
+
+  // A blank macro is unknown, not zero
+  const macro = (field: ImportField) => {
+    const amount = parseNumber(value(field));
+    if (amount !== null && amount < 0) {
+      throw new Error(`Invalid ${field} "${value(field)}"`);
+    }
+    return amount === null ? null : Math.round(amount * 10) / 10;
+  };
+
+  const quantity = parseQuantity(value("amount"), value("unit"));
+
+  const nutrients: NutrientAmount[] = [];
+  for (const { column, nutrientId, factor = 1 } of layout.nutrients) {
+    const header = Object.keys(record).find((h) => h.trim().toLowerCase() === column.toLowerCase());
+    const amount = header ? parseNumber(record[header]) : null;
+    const nutrient = findNutrient(nutrientId);
+    if (amount === null || amount <= 0 || !nutrient) continue;
+    nutrients.push({
+      nutrient_id: nutrient.id,
+      name: nutrient.name,
+      unit: nutrient.unit,
+      amount: amount * factor,
+    });
+  }
+
+  return {
+    row,
+    entry: {
+      user_id: userId,
+      date,
+      meal,
+      food_name: foodName,
+      fdc_id: null,
+      serving_size: quantity.size,
+      serving_unit: quantity.unit,
+      calories: Math.round(calories),
+      protein_g: macro("protein_g"),
+      carbs_g: macro("carbs_g"),
+      fat_g: macro("fat_g"),
+      fiber_g: macro("fiber_g"),
+      notes: value("notes")?.trim() || null,
+    },
+    nutrients,
+  };
+}
+
+// An entry counts as a duplicate when the same food with the same calories
+// is already logged for that date and meal. Repeats within the file are kept,
+// since trackers list each serving separately.
+function findDuplicates(
+  valid: ImportRow[],
+  userId: number,
+  skipDuplicates: boolean
+): { rows: ImportRow[]; duplicates: HistoryImportResult["duplicates"] } {
+  const key = (e: Pick<FoodLogEntry, "date" | "meal" | "food_name" | "calories">) =>
+    `${e.date}|${e.meal ?? ""}|${e.food_name.trim().toLowerCase()}|${Math.round(e.calories)}`;
+
+  const dates = valid.map((r) => r.entry.date).sort();
+  const existing = new Set(
+    dates.length > 0
+      ? getLogsByDateRange(userId, dates[0], dates[dates.length - 1]).map(key)
+      : []
+  );
+
+  const rows: ImportRow[] = [];
+  const duplicates: HistoryImportResult["duplicates"] = [];
+
+  for (const row of valid) {
+    if (existing.has(key(row.entry))) {
+      duplicates.push({ row: row.row, date: row.entry.date, food_name: row.entry.food_name });
+      if (skipDuplicates) continue;
+    }
+    rows.push(row);
+  }
+
+  return { rows, duplicates };
+}
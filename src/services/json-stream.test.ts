@@ -0,0 +1,45 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { readJsonArray } from "./json-stream.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-stream-"));
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function writeJson(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+async function collect(file: string, keys: string[], chunkSize?: number) {
+  const items: { key: string; item: unknown }[] = [];
+  for await (const entry of readJsonArray(file, keys, chunkSize)) items.push(entry);
+  return items;
+}
+
+describe("readJsonArray", () => {
+  const foods = [
+    { fdcId: 1, description: 'Pie, "apple" {homemade}', foodNutrients: [{ amount: 2.5 }] },
+    { fdcId: 2, description: "Crème brûlée \\ [custard]", foodPortions: [] },
+  ];
+  const file = writeJson(
+    "foods.json",
+    JSON.stringify({ Other: [{ fdcId: 9 }], meta: { "SRLegacyFoods": "not an array" }, SRLegacyFoods: foods }, null, 2)
+  );
+
+  it("yields the objects of the matching array and skips other values", async () => {
+    expect(await collect(file, ["FoundationFoods", "SRLegacyFoods"])).toEqual(
+      foods.map((item) => ({ key: "SRLegacyFoods", item }))
+    );
+  });
+
+  it("reads objects and keys split across chunks", async () => {
+    expect(await collect(file, ["SRLegacyFoods"], 7)).toEqual(foods.map((item) => ({ key: "SRLegacyFoods", item })));
+  });
+
+  it("rejects files without any of the keys", async () => {
+    await expect(collect(file, ["BrandedFoods"])).rejects.toThrow("expected an array under one of: BrandedFoods");
+  });
+});
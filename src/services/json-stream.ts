@@ -0,0 +1,82 @@
+import fs from "fs";
+
+// Stream the objects of the array stored under one of `keys` in a top-level
+// JSON object, e.g. {"BrandedFoods": [{...}, {...}]}, holding only one
+// object in memory at a time. Other top-level values are skipped. Throws when
+// none of the keys holds an array.
+export async function* readJsonArray<T>(
+  file: string,
+  keys: string[],
+  chunkSize: number = 1024 * 1024
+): AsyncGenerator<{ key: string; item: T }> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1; // index in the chunk where a top-level key started
+  let keyPrefix = ""; // start of a key split across chunks
+  let lastKey = "";
+  let arrayKey: string | null = null; // key of the array being read
+  let found: string | null = null;
+  let parts: string[] = []; // text of the current object across chunks
+  let capturing = false;
+
+  for await (const chunk of fs.createReadStream(file, { encoding: "utf8", highWaterMark: chunkSize })) {
+    const text = chunk as string;
+    let itemStart = capturing ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1 && stringStart !== -1) {
+            lastKey = keyPrefix + text.slice(stringStart, i);
+            keyPrefix = "";
+            stringStart = -1;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        if (depth === 1) stringStart = i + 1;
+      } else if (char === "{" || char === "[") {
+        if (depth === 1 && char === "[" && keys.includes(lastKey)) {
+          arrayKey = found = lastKey;
+        } else if (depth === 2 && arrayKey !== null && char === "{") {
+          capturing = true;
+          itemStart = i;
+        }
+        depth++;
+      } else if (char === "}" || char === "]") {
+        depth--;
+        if (depth === 1) {
+          arrayKey = null;
+        } else if (depth === 2 && capturing) {
+          parts.push(text.slice(itemStart, i + 1));
+          yield { key: found!, item: JSON.parse(parts.join("")) as T };
+          parts = [];
+          capturing = false;
+          itemStart = -1;
+        }
+      }
+    }
+
+    // Carry the unfinished object (or key) over to the next chunk
+    if (capturing) parts.push(text.slice(itemStart));
+    if (inString && stringStart !== -1) {
+      keyPrefix += text.slice(stringStart);
+      stringStart = 0;
+    }
+  }
+
+  if (found === null) {
+    throw new Error(`Unrecognized JSON file; expected an array under one of: ${keys.join(", ")}`);
+  }
+}
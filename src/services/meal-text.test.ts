@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseMealText } from "./meal-text.js";
+
+describe("parseMealText", () => {
+  it("reads quantities and units of each food", () => {
+    expect(parseMealText("I had two eggs, a slice of sourdough toast and 200g greek yogurt")).toEqual([
+      { text: "two eggs", quantity: 2, unit: null, food: "eggs" },
+      { text: "a slice of sourdough toast", quantity: 1, unit: "slice", food: "sourdough toast" },
+      { text: "200g greek yogurt", quantity: 200, unit: "g", food: "greek yogurt" },
+    ]);
+  });
+
+  it("keeps compound foods whole", () => {
+    expect(parseMealText("mac and cheese with a side salad")).toEqual([
+      { text: "mac and cheese", quantity: 1, unit: null, food: "mac and cheese" },
+      { text: "a side salad", quantity: 1, unit: null, food: "side salad" },
+    ]);
+  });
+
+  it("does not read a compound food that starts with a number word as a quantity", () => {
+    expect(parseMealText("coffee with half and half")).toEqual([
+      { text: "coffee", quantity: 1, unit: null, food: "coffee" },
+      { text: "half and half", quantity: 1, unit: null, food: "half and half" },
+    ]);
+    expect(parseMealText("2 tbsp half and half")).toEqual([
+      { text: "2 tbsp half and half", quantity: 2, unit: "tbsp", food: "half and half" },
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+import type { FoodLogEntry, NutrientAmount, NutritionInfo } from "../types.js";
+import { calculateTotals, logFoods, searchCustomFoods } from "./database.js";
+import { scaleCustomFood, scaleCustomFoodNutrients } from "./recipes.js";
+import { matchConfidence, singular, tokens } from "./text-match.js";
+import { defaultPortionUnit, normalizeUnit, parseUnit } from "./units.js";
+import type { USDAApi } from "./usda-api.js";
+
+// A food phrase from a sentence like "two eggs, a slice of sourdough toast"
+export interface ParsedMealItem {
+  text: string; // the phrase as written
+  quantity: number;
+  unit: string | null; // null when only a count was given ("two eggs")
+  food: string;
+}
+
+export interface MealTextItem extends ParsedMealItem {
+  match: {
+    name: string;
+    fdc_id: number | null;
+    custom_food_id: number | null;
+    confidence: number; // 0-1, how well the food's name matches the phrase
+  } | null;
+  entry: Omit<FoodLogEntry, "id" | "logged_at"> | null;
+  nutrients: NutrientAmount[];
+  error: string | null;
+}
+
+export interface MealTextOptions {
+  userId: number;
+  date: string;
+  meal: string | null;
+  dryRun: boolean;
+  minConfidence: number;
+}
+
+export interface MealTextResult {
+  items: MealTextItem[];
+  totals: NutritionInfo;
+  logged: FoodLogEntry[]; // empty for a preview or when any item needs attention
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  dozen: 12,
+  half: 0.5,
+  couple: 2,
+  few: 3,
+};
+
+const FRACTIONS: Record<string, number> = { "½": 0.5, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 0.25, "¾": 0.75 };
+
+// Household portions USDA describes foods by; other units come from units.ts
+const PORTION_WORDS = [
+  "slice",
+  "large",
+  "medium",
+  "small",
+  "extra large",
+  "bowl",
+  "glass",
+  "mug",
+  "handful",
+  "scoop",
+  "can",
+  "bottle",
+  "bar",
+  "stick",
+  "link",
+  "patty",
+  "fillet",
+  "clove",
+  "leaf",
+];
+
+// Dishes whose names contain a separator word
+const COMPOUND_FOODS = [
+  "mac and cheese",
+  "macaroni and cheese",
+  "peanut butter and jelly",
+  "fish and chips",
+  "half and half",
+  "rice and beans",
+  "salt and pepper",
+  "sweet and sour",
+  "pork and beans",
+];
+
+const SEPARATOR = /\s*(?:,|;|\n|&|\band\b|\bwith\b|\bplus\b)\s*/i;
+const LEAD_IN = /^\s*(?:for (?:breakfast|lunch|dinner|a snack)\s*,?\s*)?(?:i\s+)?(?:had|ate|drank)\s+/i;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function roundTotals(totals: NutritionInfo): NutritionInfo {
+  return {
+    calories: Math.round(totals.calories),
+    protein_g: round1(totals.protein_g),
+    carbs_g: round1(totals.carbs_g),
+    fat_g: round1(totals.fat_g),
+    fiber_g: round1(totals.fiber_g),
+  };
+}
+
+// Read a leading quantity: "2", "1.5", "1 1/2", "½", "two", "a couple of"
+function parseQuantity(words: string[]): { quantity: number; used: number } | null {
+  const [first, second] = words;
+  if (!first) return null;
+
+  const mixed = `${first} ${second ?? ""}`.match(/^(\d+) (\d+)\/(\d+)$/);
+  if (mixed) return { quantity: Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]), used: 2 };
+  const fraction = first.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return { quantity: Number(fraction[1]) / Number(fraction[2]), used: 1 };
+  if (/^\d+(?:\.\d+)?$/.test(first)) return { quantity: Number(first), used: 1 };
+  if (FRACTIONS[first] !== undefined) return { quantity: FRACTIONS[first], used: 1 };
+
+  if (NUMBER_WORDS[first] !== undefined) {
+    // "a half", "a couple", "a dozen", "half a", "half an"
+    if ((first === "a" || first === "an") && second && ["half", "couple", "few", "dozen"].includes(second)) {
+      return { quantity: NUMBER_WORDS[second], used: 2 };
+    }
+    if (first === "half" && (second === "a" || second === "an")) return { quantity: 0.5, used: 2 };
+    return { quantity: NUMBER_WORDS[first], used: 1 };
+  }
+  return null;
+}
+
+function isUnit(word: string): boolean {
+  return parseUnit(word) !== null || PORTION_WORDS.includes(word) || PORTION_WORDS.includes(singular(word));
+}
+
+// Compound food names are swapped for placeholders while a sentence is split
+// and the quantity read, so "half and half" is neither two foods nor half of one
+const restoreCompounds = (text: string) => text.replace(/\u0000(\d+)\u0000/g, (_, i) => COMPOUND_FOODS[Number(i)]);
+
+function parseItem(text: string): ParsedMealItem | null {
+  // Split numbers glued to units ("200g", "8oz") into separate words
+  let words = text
+    .toLowerCase()
+    .replace(/^(\d+(?:\.\d+)?)([a-z]+)\b/, (match, amount, unit) => (parseUnit(unit) ? `${amount} ${unit}` : match))
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const parsed = parseQuantity(words);
+  const quantity = parsed?.quantity ?? 1;
+  words = words.slice(parsed?.used ?? 0);
+  if (words[0] === "of") words = words.slice(1);
+
+  let unit: string | null = null;
+  for (const length of [2, 1]) {
+    const candidate = words.slice(0, length).join(" ");
+    if (words.length > length && isUnit(candidate)) {
+      unit = PORTION_WORDS.includes(candidate) || parseUnit(candidate) ? candidate : singular(candidate);
+      words = words.slice(length);
+      break;
+    }
+  }
+  if (words[0] === "of") words = words.slice(1);
+  if (words[0] === "the") words = words.slice(1);
+
+  const food = restoreCompounds(words.join(" ").replace(/[.!?]+$/, "").trim());
+  return food ? { text: restoreCompounds(text.trim()), quantity, unit, food } : null;
+}
+
+// Split a sentence into food phrases and read each one's quantity and unit
+export function parseMealText(text: string): ParsedMealItem[] {
+  let sentence = text.replace(LEAD_IN, "");
+  COMPOUND_FOODS.forEach((name, i) => {
+    sentence = sentence.replace(new RegExp(`\\b${name}\\b`, "gi"), `\u0000${i}\u0000`);
+  });
+
+  return sentence
+    .split(SEPARATOR)
+    .map(parseItem)
+    .filter((item): item is ParsedMealItem => item !== null);
+}
+
+// Generic USDA foods describe "eggs" better than a brand that happens to use
+// the same words, unless the phrase names the brand
+function brandPenalty(phrase: string, brandOwner: string | undefined): number {
+  if (!brandOwner) return 1;
+  return tokens(brandOwner).some((t) => tokens(phrase).includes(t)) ? 1 : 0.85;
+}
+
+async function resolveItem(usdaApi: USDAApi, item: ParsedMealItem, options: MealTextOptions): Promise<MealTextItem> {
+  const resolved: MealTextItem = { ...item, match: null, entry: null, nutrients: [], error: null };
+  const base = { user_id: options.userId, date: options.date, meal: options.meal, notes: null };
+
+  // Search by singular words so "eggs" also finds "Egg, whole, raw" offline;
+  // the user's own foods win ties with USDA
+  const query = item.food.split(" ").map(singular).join(" ");
+  const customFood = searchCustomFoods(query, 5)
+    .map((food) => ({ food, confidence: matchConfidence(item.food, food.name) }))
+    .sort((a, b) => b.confidence - a.confidence)[0];
+  const search = { limit: 10, userId: options.userId };
+  let usdaFoods = (await usdaApi.searchFoods(query, search)).foods;
+  // Offline search needs every word to match, so fall back to the food itself
+  // ("coffee" for "black coffee")
+  if (usdaFoods.length === 0 && !customFood && query.includes(" ")) {
+    usdaFoods = (await usdaApi.searchFoods(query.split(" ").pop()!, search)).foods;
+  }
+  const usdaFood = usdaFoods
+    .map((food) => ({
+      food,
+      confidence: round2(matchConfidence(item.food, food.description) * brandPenalty(item.food, food.brandOwner)),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)[0];
+
+  try {
+    if (customFood && (!usdaFood || customFood.confidence >= usdaFood.confidence)) {
+      const { food, confidence } = customFood;
+      const unit = item.unit ?? "serving";
+      resolved.match = { name: food.name, fdc_id: null, custom_food_id: food.id, confidence };
+      resolved.nutrients = scaleCustomFoodNutrients(food, item.quantity, unit);
+      resolved.entry = {
+        ...base,
+        food_name: food.name,
+        fdc_id: null,
+        serving_size: item.quantity,
+        serving_unit: normalizeUnit(unit),
+        ...scaleCustomFood(food, item.quantity, unit),
+      };
+    } else if (usdaFood) {
+      const { food, confidence } = usdaFood;
+      resolved.match = { name: food.description, fdc_id: food.fdcId, custom_food_id: null, confidence };
+
+      let unit = item.unit;
+      if (!unit) {
+        const details = await usdaApi.getFoodDetails(food.fdcId);
+        unit = defaultPortionUnit(details?.foodPortions) ?? (details?.servingSize ? "serving" : null);
+      }
+      if (!unit) {
+        throw new Error(`No household portion for ${food.description}; say how much, e.g. "100 g ${item.food}"`);
+      }
+
+      const serving = await usdaApi.getServingNutrition(food.fdcId, item.quantity, unit);
+      resolved.nutrients = serving.nutrients;
+      resolved.entry = {
+        ...base,
+        food_name: food.description,
+        fdc_id: food.fdcId,
+        serving_size: item.quantity,
+        serving_unit: normalizeUnit(unit),
+        ...serving.nutrition,
+      };
+    } else {
+      resolved.error = `No food found for "${item.food}"`;
+    }
+  } catch (error) {
+    resolved.error = error instanceof Error ? error.message : String(error);
+  }
+  return resolved;
+}
+
+// Parse a sentence into foods, match each one and log them all in a single
+// undoable change. Nothing is logged on a dry run or when any item is
+// unmatched, fails to convert or matches below the confidence threshold.
+export async function logMealText(usdaApi: USDAApi, text: string, options: MealTextOptions): Promise<MealTextResult> {
+  const parsed = parseMealText(text);
+  if (parsed.length === 0) {
+    throw new Error(`No foods found in "${text}"`);
+  }
+
+  const items: MealTextItem[] = [];
+  for (const item of parsed) {
+    items.push(await resolveItem(usdaApi, item, options));
+  }
+
+  const totals = roundTotals(calculateTotals(items.flatMap((item) => (item.entry ? [item.entry] : []))));
+  const ready = items.every((item) => item.entry && (item.match?.confidence ?? 0) >= options.minConfidence);
+
+  const logged =
+    ready && !options.dryRun
+      ? logFoods(items.map((item) => ({ entry: item.entry!, nutrients: item.nutrients })))
+      : [];
+  return { items, totals, logged };
+}
@@ -0,0 +1,114 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runMigrations, SCHEMA_VERSION } from "./migrations.js";
+
+// Schema of databases from before versioning: one goals row, unowned food logs
+const BASELINE_SCHEMA = `
+  CREATE TABLE goals (
+    id INTEGER PRIMARY KEY DEFAULT 1,
+    daily_calories INTEGER,
+    protein_g INTEGER,
+    carbs_g INTEGER,
+    fat_g INTEGER,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE food_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    logged_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    date TEXT NOT NULL,
+    meal TEXT,
+    food_name TEXT NOT NULL,
+    fdc_id INTEGER,
+    serving_size REAL NOT NULL,
+    serving_unit TEXT NOT NULL,
+    calories REAL NOT NULL,
+    protein_g REAL,
+    carbs_g REAL,
+    fat_g REAL,
+    fiber_g REAL,
+    notes TEXT
+  );
+
+  CREATE INDEX idx_food_logs_date ON food_logs(date);
+
+  INSERT INTO goals (id, daily_calories, protein_g, carbs_g, fat_g, updated_at)
+  VALUES (1, 1800, 140, 180, 60, '2025-01-10 12:00:00');
+
+  INSERT INTO food_logs (logged_at, date, meal, food_name, serving_size, serving_unit, calories, protein_g)
+  VALUES ('2025-01-15 08:30:00', '2025-01-15', 'breakfast', 'Oatmeal', 1, 'cup', 150, 5),
+         ('2025-01-15 12:45:10', '2025-01-15', 'lunch', 'Apple', 1, 'medium', 95, 0.5);
+`;
+
+describe("runMigrations", () => {
+  let dir: string;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "food-tracker-test-"));
+    db = new Database(path.join(dir, "food-tracker.db"));
+    db.exec(BASELINE_SCHEMA);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("upgrades a pre-versioning database to the current schema", () => {
+    runMigrations(db);
+
+    expect(db.pragma("user_version", { simple: true })).toBe(SCHEMA_VERSION);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'goals'").get()).toBeUndefined();
+    expect(db.prepare("SELECT * FROM users").all()).toEqual([
+      expect.objectContaining({ id: 1, name: "default", timezone: null }),
+    ]);
+  });
+
+  it("keeps the legacy goals as the first version instead of adding defaults", () => {
+    runMigrations(db);
+
+    expect(db.prepare("SELECT * FROM goal_versions").all()).toEqual([
+      expect.objectContaining({
+        user_id: 1,
+        effective_from: "1970-01-01",
+        daily_calories: 1800,
+        protein_g: 140,
+        carbs_g: 180,
+        fat_g: 60,
+        updated_at: "2025-01-10 12:00:00",
+      }),
+    ]);
+  });
+
+  it("gives unowned food logs to the default profile with UTC timestamps", () => {
+    runMigrations(db);
+
+    expect(
+      db.prepare("SELECT user_id, logged_at, food_name, deleted_at FROM food_logs ORDER BY id").all()
+    ).toEqual([
+      { user_id: 1, logged_at: "2025-01-15T08:30:00+00:00", food_name: "Oatmeal", deleted_at: null },
+      { user_id: 1, logged_at: "2025-01-15T12:45:10+00:00", food_name: "Apple", deleted_at: null },
+    ]);
+  });
+
+  it("does nothing when run again", () => {
+    runMigrations(db);
+    const tables = db.prepare("SELECT name, sql FROM sqlite_master ORDER BY name").all();
+    const goals = db.prepare("SELECT * FROM goal_versions").all();
+
+    runMigrations(db);
+    expect(db.prepare("SELECT name, sql FROM sqlite_master ORDER BY name").all()).toEqual(tables);
+    expect(db.prepare("SELECT * FROM goal_versions").all()).toEqual(goals);
+  });
+
+  it("refuses a database from a newer version", () => {
+    runMigrations(db);
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+
+    expect(() => runMigrations(db)).toThrow("newer than this server supports");
+  });
+});
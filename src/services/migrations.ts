@@ -0,0 +1,417 @@
+import type Database from "better-sqlite3";
+
+// A schema change applied once, in order, to every database. Applied
+// migrations are recorded in SQLite's user_version pragma. Never edit a
+// released migration; add a new one instead.
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // Databases from before versioning may be at any earlier schema (the
+    // original goals/food_logs tables, or partway through later additions),
+    // so this step only creates what is missing
+    description: "Initial versioned schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Versioned goals: the version with the latest effective_from on or
+        -- before a date is the one in force on that date
+        CREATE TABLE IF NOT EXISTS goal_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          effective_from TEXT NOT NULL,
+          daily_calories INTEGER,
+          protein_g INTEGER,
+          carbs_g INTEGER,
+          fat_g INTEGER,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_goal_versions_user_date ON goal_versions(user_id, effective_from);
+
+        CREATE TABLE IF NOT EXISTS goal_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          name TEXT NOT NULL COLLATE NOCASE,
+          daily_calories INTEGER,
+          protein_g INTEGER,
+          carbs_g INTEGER,
+          fat_g INTEGER,
+          UNIQUE (user_id, name)
+        );
+
+        -- Template applied on a weekday (0 = Sunday)
+        CREATE TABLE IF NOT EXISTS goal_weekday_schedule (
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          weekday INTEGER NOT NULL,
+          template_id INTEGER NOT NULL REFERENCES goal_templates(id),
+          PRIMARY KEY (user_id, weekday)
+        );
+
+        -- Template explicitly applied on a date, overriding the weekday schedule
+        CREATE TABLE IF NOT EXISTS goal_date_tags (
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          date TEXT NOT NULL,
+          template_id INTEGER NOT NULL REFERENCES goal_templates(id),
+          PRIMARY KEY (user_id, date)
+        );
+
+        CREATE TABLE IF NOT EXISTS food_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL DEFAULT 1,
+          logged_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          date TEXT NOT NULL,
+          meal TEXT,
+          food_name TEXT NOT NULL,
+          fdc_id INTEGER,
+          serving_size REAL NOT NULL,
+          serving_unit TEXT NOT NULL,
+          calories REAL NOT NULL,
+          protein_g REAL,
+          carbs_g REAL,
+          fat_g REAL,
+          fiber_g REAL,
+          notes TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_food_logs_date ON food_logs(date);
+
+        CREATE TABLE IF NOT EXISTS nutrients (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          unit_name TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS food_log_nutrients (
+          entry_id INTEGER NOT NULL REFERENCES food_logs(id) ON DELETE CASCADE,
+          nutrient_id INTEGER NOT NULL REFERENCES nutrients(id),
+          amount REAL NOT NULL,
+          PRIMARY KEY (entry_id, nutrient_id)
+        ) WITHOUT ROWID;
+
+        CREATE TABLE IF NOT EXISTS nutrient_goals (
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          nutrient_id INTEGER NOT NULL REFERENCES nutrients(id),
+          min_amount REAL,
+          max_amount REAL,
+          PRIMARY KEY (user_id, nutrient_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS body_metrics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          date TEXT NOT NULL,
+          weight_kg REAL,
+          body_fat_pct REAL,
+          waist_cm REAL,
+          notes TEXT,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, date)
+        );
+
+        CREATE TABLE IF NOT EXISTS custom_foods (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          serving_size REAL NOT NULL,
+          serving_unit TEXT NOT NULL,
+          calories REAL NOT NULL,
+          protein_g REAL,
+          carbs_g REAL,
+          fat_g REAL,
+          fiber_g REAL,
+          notes TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS recipes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          servings REAL NOT NULL,
+          calories REAL NOT NULL,
+          protein_g REAL NOT NULL,
+          carbs_g REAL NOT NULL,
+          fat_g REAL NOT NULL,
+          fiber_g REAL NOT NULL,
+          notes TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS recipe_ingredients (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          recipe_id INTEGER NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+          food_name TEXT NOT NULL,
+          fdc_id INTEGER,
+          custom_food_id INTEGER REFERENCES custom_foods(id),
+          amount REAL NOT NULL,
+          unit TEXT NOT NULL,
+          calories REAL NOT NULL,
+          protein_g REAL NOT NULL,
+          carbs_g REAL NOT NULL,
+          fat_g REAL NOT NULL,
+          fiber_g REAL NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe ON recipe_ingredients(recipe_id);
+
+        CREATE TABLE IF NOT EXISTS usda_foods (
+          fdc_id INTEGER PRIMARY KEY,
+          description TEXT NOT NULL,
+          data_type TEXT,
+          brand_owner TEXT,
+          data TEXT NOT NULL,
+          complete INTEGER NOT NULL DEFAULT 0,
+          fetched_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS usda_foods_fts USING fts5(
+          description, brand_owner, content='usda_foods', content_rowid='fdc_id'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS usda_foods_ai AFTER INSERT ON usda_foods BEGIN
+          INSERT INTO usda_foods_fts(rowid, description, brand_owner)
+            VALUES (new.fdc_id, new.description, new.brand_owner);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS usda_foods_ad AFTER DELETE ON usda_foods BEGIN
+          INSERT INTO usda_foods_fts(usda_foods_fts, rowid, description, brand_owner)
+            VALUES ('delete', old.fdc_id, old.description, old.brand_owner);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS usda_foods_au AFTER UPDATE ON usda_foods BEGIN
+          INSERT INTO usda_foods_fts(usda_foods_fts, rowid, description, brand_owner)
+            VALUES ('delete', old.fdc_id, old.description, old.brand_owner);
+          INSERT INTO usda_foods_fts(rowid, description, brand_owner)
+            VALUES (new.fdc_id, new.description, new.brand_owner);
+        END;
+
+        CREATE TABLE IF NOT EXISTS dataset_foods (
+          fdc_id INTEGER PRIMARY KEY,
+          description TEXT NOT NULL,
+          data_type TEXT NOT NULL,
+          brand_owner TEXT,
+          gtin_upc TEXT,
+          ingredients TEXT,
+          serving_size REAL,
+          serving_size_unit TEXT,
+          household_serving TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS dataset_nutrients (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          number TEXT,
+          unit_name TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS dataset_food_nutrients (
+          fdc_id INTEGER NOT NULL,
+          nutrient_id INTEGER NOT NULL,
+          amount REAL NOT NULL,
+          PRIMARY KEY (fdc_id, nutrient_id)
+        ) WITHOUT ROWID;
+
+        CREATE TABLE IF NOT EXISTS dataset_food_portions (
+          id INTEGER PRIMARY KEY,
+          fdc_id INTEGER NOT NULL,
+          amount REAL,
+          gram_weight REAL NOT NULL,
+          modifier TEXT,
+          portion_description TEXT,
+          measure_unit TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_dataset_food_portions_fdc ON dataset_food_portions(fdc_id);
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS dataset_foods_fts USING fts5(
+          description, brand_owner, content='dataset_foods', content_rowid='fdc_id'
+        );
+      `);
+
+      // Databases created before profiles existed have unowned food logs;
+      // they belong to the default profile
+      const foodLogColumns = db.prepare("PRAGMA table_info(food_logs)").all() as { name: string }[];
+      if (!foodLogColumns.some((c) => c.name === "user_id")) {
+        db.exec("ALTER TABLE food_logs ADD COLUMN user_id INTEGER NOT NULL DEFAULT 1");
+      }
+      db.exec("CREATE INDEX IF NOT EXISTS idx_food_logs_user_date ON food_logs(user_id, date)");
+
+      // Default profile
+      db.prepare("INSERT OR IGNORE INTO users (id, name) VALUES (1, 'default')").run();
+
+      // Goals used to be a single row per profile (goals.id = users.id); keep
+      // them as the first version, in force since the beginning
+      const legacyGoals = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'goals'")
+        .get();
+      if (legacyGoals) {
+        db.exec(
+          `INSERT INTO goal_versions (user_id, effective_from, daily_calories, protein_g, carbs_g, fat_g, updated_at)
+           SELECT id, '1970-01-01', daily_calories, protein_g, carbs_g, fat_g, updated_at FROM goals;
+           DROP TABLE goals;`
+        );
+      }
+
+      // Default goals for the default profile
+      const goalsExist = db
+        .prepare("SELECT COUNT(*) as count FROM goal_versions WHERE user_id = 1")
+        .get() as { count: number };
+      if (goalsExist.count === 0) {
+        db.exec(
+          `INSERT INTO goal_versions (user_id, effective_from, daily_calories, protein_g, carbs_g, fat_g)
+           VALUES (1, '1970-01-01', 2000, 150, 250, 65)`
+        );
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Soft-deleted food log entries and an append-only audit log",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE food_logs ADD COLUMN deleted_at TEXT;
+
+        -- One row per changed row; rows written together share a change_id and
+        -- are undone together. Undoing writes a new change with undo_of set.
+        CREATE TABLE audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          change_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          table_name TEXT NOT NULL,
+          row_id INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          before TEXT,
+          after TEXT,
+          undo_of INTEGER,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_audit_log_user_change ON audit_log(user_id, change_id);
+
+        CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+
+        CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "Per-profile time zones and logged_at timestamps with a UTC offset",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE users ADD COLUMN timezone TEXT;
+
+        -- Earlier timestamps were written by CURRENT_TIMESTAMP, i.e. UTC without an offset
+        UPDATE food_logs SET logged_at = strftime('%Y-%m-%dT%H:%M:%S+00:00', logged_at)
+        WHERE logged_at NOT LIKE '%T%';
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Barcode indexes on the USDA dataset and cache",
+    up: (db) => {
+      // Leading zeros vary between UPC-A, EAN-13 and GTIN-14 forms of one code
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_dataset_foods_gtin ON dataset_foods(ltrim(gtin_upc, '0'));
+        CREATE INDEX IF NOT EXISTS idx_usda_foods_gtin ON usda_foods(ltrim(json_extract(data, '$.gtinUpc'), '0'));
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Favorite foods and meal templates",
+    up: (db) => {
+      // Foods are copied as logged, nutrients as a JSON array of NutrientAmount
+      db.exec(`
+        CREATE TABLE favorite_foods (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          food_name TEXT NOT NULL COLLATE NOCASE,
+          fdc_id INTEGER,
+          serving_size REAL NOT NULL,
+          serving_unit TEXT NOT NULL,
+          calories REAL NOT NULL,
+          protein_g REAL,
+          carbs_g REAL,
+          fat_g REAL,
+          fiber_g REAL,
+          nutrients TEXT NOT NULL DEFAULT '[]',
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, food_name)
+        );
+
+        CREATE TABLE meal_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          name TEXT NOT NULL COLLATE NOCASE,
+          meal TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, name)
+        );
+
+        CREATE TABLE meal_template_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          template_id INTEGER NOT NULL REFERENCES meal_templates(id) ON DELETE CASCADE,
+          food_name TEXT NOT NULL,
+          fdc_id INTEGER,
+          serving_size REAL NOT NULL,
+          serving_unit TEXT NOT NULL,
+          calories REAL NOT NULL,
+          protein_g REAL,
+          carbs_g REAL,
+          fat_g REAL,
+          fiber_g REAL,
+          nutrients TEXT NOT NULL DEFAULT '[]'
+        );
+
+        CREATE INDEX idx_meal_template_items_template ON meal_template_items(template_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Nutrients of custom foods and recipe ingredients",
+    up: (db) => {
+      // JSON arrays of NutrientAmount: per serving of a custom food, and for
+      // the amount of a recipe ingredient
+      db.exec(`
+        ALTER TABLE custom_foods ADD COLUMN nutrients TEXT NOT NULL DEFAULT '[]';
+        ALTER TABLE recipe_ingredients ADD COLUMN nutrients TEXT NOT NULL DEFAULT '[]';
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Bring a database up to SCHEMA_VERSION, one transaction per migration
+export function runMigrations(db: Database.Database): void {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  if (current > SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${current} is newer than this server supports (${SCHEMA_VERSION}); upgrade food-tracker-mcp`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+}
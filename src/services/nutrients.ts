@@ -0,0 +1,112 @@
+import type { NutrientGoal, NutrientAmount } from "../types.js";
+
+// Micronutrients and macro components shown in logs and summaries, keyed by
+// USDA nutrient ID. Every nutrient USDA returns is stored; these are the ones
+// surfaced by default and addressable by key in tool inputs.
+export interface NutrientDefinition {
+  id: number;
+  key: string;
+  name: string;
+  unit: string;
+}
+
+export const TRACKED_NUTRIENTS: NutrientDefinition[] = [
+  { id: 1093, key: "sodium", name: "Sodium", unit: "mg" },
+  { id: 2000, key: "sugars", name: "Sugars", unit: "g" },
+  { id: 1235, key: "added_sugars", name: "Added sugars", unit: "g" },
+  { id: 1258, key: "saturated_fat", name: "Saturated fat", unit: "g" },
+  { id: 1257, key: "trans_fat", name: "Trans fat", unit: "g" },
+  { id: 1253, key: "cholesterol", name: "Cholesterol", unit: "mg" },
+  { id: 1092, key: "potassium", name: "Potassium", unit: "mg" },
+  { id: 1087, key: "calcium", name: "Calcium", unit: "mg" },
+  { id: 1089, key: "iron", name: "Iron", unit: "mg" },
+  { id: 1090, key: "magnesium", name: "Magnesium", unit: "mg" },
+  { id: 1095, key: "zinc", name: "Zinc", unit: "mg" },
+  { id: 1106, key: "vitamin_a", name: "Vitamin A (RAE)", unit: "µg" },
+  { id: 1162, key: "vitamin_c", name: "Vitamin C", unit: "mg" },
+  { id: 1114, key: "vitamin_d", name: "Vitamin D", unit: "µg" },
+  { id: 1109, key: "vitamin_e", name: "Vitamin E", unit: "mg" },
+  { id: 1185, key: "vitamin_k", name: "Vitamin K", unit: "µg" },
+  { id: 1178, key: "vitamin_b12", name: "Vitamin B12", unit: "µg" },
+  { id: 1177, key: "folate", name: "Folate", unit: "µg" },
+];
+
+// FDA daily values (adults) for nutrients other trackers report as % DV
+export const DAILY_VALUES: Record<number, number> = {
+  1106: 900, // Vitamin A, µg RAE
+  1162: 90, // Vitamin C, mg
+  1087: 1300, // Calcium, mg
+  1089: 18, // Iron, mg
+};
+
+// Macros already stored as food_logs columns, kept out of the micronutrient lists
+export const MACRO_NUTRIENT_IDS = [1008, 1062, 1003, 1005, 1004, 1079, 2047, 2048];
+
+export const NUTRIENT_KEYS = TRACKED_NUTRIENTS.map((n) => n.key);
+
+// Resolve a nutrient by key ("sodium") or USDA nutrient ID ("1093")
+export function findNutrient(keyOrId: string | number): NutrientDefinition | null {
+  const value = String(keyOrId).toLowerCase().trim();
+  return (
+    TRACKED_NUTRIENTS.find((n) => n.key === value || String(n.id) === value) ?? null
+  );
+}
+
+// USDA reports units in capitals ("MG", "UG"); display them conventionally
+export function normalizeNutrientUnit(unit: string): string {
+  const lower = unit.toLowerCase();
+  if (lower === "ug" || lower === "mcg") return "µg";
+  if (lower === "iu") return "IU";
+  return lower;
+}
+
+export function formatAmount(amount: number): string {
+  return amount >= 10 ? String(Math.round(amount)) : String(Math.round(amount * 10) / 10);
+}
+
+// e.g. "Sodium: 1850mg (limit 2300mg)" or "Iron: 6mg (target 18mg, below target)"
+export function formatNutrientLine(
+  name: string,
+  unit: string,
+  amount: number,
+  goal?: NutrientGoal
+): string {
+  let line = `${name}: ${formatAmount(amount)}${unit}`;
+  if (goal) {
+    const parts: string[] = [];
+    if (goal.min_amount !== null) parts.push(`target ${formatAmount(goal.min_amount)}${unit}`);
+    if (goal.max_amount !== null) parts.push(`limit ${formatAmount(goal.max_amount)}${unit}`);
+    if (goal.max_amount !== null && amount > goal.max_amount) parts.push("over limit");
+    else if (goal.min_amount !== null && amount < goal.min_amount) parts.push("below target");
+    line += ` (${parts.join(", ")})`;
+  }
+  return line;
+}
+
+// Nutrient totals to display: tracked nutrients with data or a goal, or
+// every captured non-macro nutrient when `all` is set
+export function selectNutrientTotals(
+  totals: NutrientAmount[],
+  goals: NutrientGoal[],
+  all: boolean = false
+): NutrientAmount[] {
+  const byId = new Map(totals.map((t) => [t.nutrient_id, t]));
+  const goalIds = new Set(goals.map((g) => g.nutrient_id));
+
+  if (all) {
+    const selected = totals.filter((t) => !MACRO_NUTRIENT_IDS.includes(t.nutrient_id));
+    for (const goal of goals) {
+      if (!byId.has(goal.nutrient_id)) {
+        selected.push({ nutrient_id: goal.nutrient_id, name: goal.name, unit: goal.unit, amount: 0 });
+      }
+    }
+    return selected;
+  }
+
+  return TRACKED_NUTRIENTS.filter((n) => byId.has(n.id) || goalIds.has(n.id)).map((n) => ({
+    nutrient_id: n.id,
+    name: n.name,
+    unit: n.unit,
+    amount: byId.get(n.id)?.amount ?? 0,
+  }));
+}
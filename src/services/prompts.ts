@@ -0,0 +1,99 @@
+import { getDaySnapshot, getSummarySnapshot, type MacroTotals } from "./resources.js";
+
+export const PROMPTS = [
+  {
+    name: "plan_remaining_meals",
+    title: "Plan my remaining meals",
+    description: "Suggest meals for the rest of the day that fit the remaining calories and macros",
+    arguments: [
+      { name: "date", description: "Day to plan, YYYY-MM-DD (default: today)" },
+      { name: "preferences", description: "Foods, cuisines or restrictions to take into account" },
+      { name: "profile", description: "Profile name (default: the active profile)" },
+    ],
+  },
+  {
+    name: "review_week",
+    title: "Review my week",
+    description: "Review the last 7 days of eating against goals and suggest adjustments",
+    arguments: [
+      { name: "end_date", description: "Last day of the week, YYYY-MM-DD (default: today)" },
+      { name: "profile", description: "Profile name (default: the active profile)" },
+    ],
+  },
+];
+
+const MEALS = ["breakfast", "lunch", "dinner", "snack"];
+
+const MACRO_LABELS: [keyof MacroTotals, string][] = [
+  ["calories", "cal"],
+  ["protein_g", "g protein"],
+  ["carbs_g", "g carbs"],
+  ["fat_g", "g fat"],
+];
+
+function formatMacros(values: Partial<MacroTotals>): string {
+  return MACRO_LABELS.filter(([key]) => values[key] !== undefined)
+    .map(([key, label]) => `${values[key]} ${label}`)
+    .join(", ");
+}
+
+function userMessage(text: string) {
+  return { role: "user" as const, content: { type: "text" as const, text } };
+}
+
+export function planRemainingMeals(
+  userId: number,
+  profile: string,
+  date: string,
+  preferences: string | undefined
+) {
+  const day = getDaySnapshot(userId, profile, date);
+  const eatenMeals = new Set(day.entries.map((e) => e.meal));
+
+  let text = `Help me plan the rest of my meals for ${date}.\n\n`;
+  if (day.entries.length === 0) {
+    text += "I haven't logged anything yet today.\n";
+  } else {
+    text += "So far I've eaten:\n";
+    for (const entry of day.entries) {
+      text += `- ${entry.meal ?? "unspecified"}: ${entry.food_name} (${entry.serving_size} ${entry.serving_unit}, ${entry.calories} cal)\n`;
+    }
+    text += `\nTotals: ${formatMacros(day.totals)}\n`;
+  }
+
+  if (day.remaining) {
+    text += `Remaining for the day: ${formatMacros(day.remaining)}\n`;
+  } else {
+    text += "I have no goals set, so aim for a balanced day.\n";
+  }
+  const openMeals = MEALS.filter((meal) => !eatenMeals.has(meal));
+  if (openMeals.length > 0) text += `Meals not logged yet: ${openMeals.join(", ")}\n`;
+  if (preferences) text += `Preferences: ${preferences}\n`;
+
+  text +=
+    "\nSuggest specific foods and portions for the remaining meals that fit what's left. " +
+    "Use search_food to check nutrition, and once I confirm a meal, log it with log_food.";
+  return { description: `Meal plan for ${date}`, messages: [userMessage(text)] };
+}
+
+export function reviewWeek(userId: number, profile: string, startDate: string, endDate: string) {
+  const summary = getSummarySnapshot(userId, profile, startDate, endDate);
+
+  let text = `Review my eating from ${startDate} to ${endDate}.\n\n`;
+  if (summary.logged_days === 0) {
+    text += "I didn't log any food in this period.\n";
+  } else {
+    for (const day of summary.days) {
+      text += `- ${day.date}: ${formatMacros(day.totals)}`;
+      if (day.goals?.daily_calories) text += ` (goal ${day.goals.daily_calories} cal)`;
+      text += "\n";
+    }
+    const days = summary.logged_days === 1 ? "1 logged day" : `${summary.logged_days} logged days`;
+    text += `\nDaily average over ${days}: ${formatMacros(summary.averages)}\n`;
+  }
+
+  text +=
+    "\nHow did I do against my goals? Point out patterns (days over or under, low protein or fiber) " +
+    "and suggest one or two practical changes for next week.";
+  return { description: `Review of ${startDate} to ${endDate}`, messages: [userMessage(text)] };
+}
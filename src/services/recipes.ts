@@ -0,0 +1,86 @@
+import type { CustomFood, NutrientAmount, NutritionInfo, RecipeIngredient } from "../types.js";
+import { getCustomFood, getCustomFoodNutrients } from "./database.js";
+import { convertAmount, normalizeUnit } from "./units.js";
+import type { USDAApi } from "./usda-api.js";
+
+export interface IngredientLine {
+  fdc_id?: number;
+  custom_food_id?: number;
+  amount: number;
+  unit: string;
+  density_g_per_ml?: number;
+}
+
+// Number of servings of a custom food in the given amount
+function customFoodServings(food: CustomFood, amount: number, unit: string): number {
+  if (normalizeUnit(unit) === "serving") {
+    return amount;
+  }
+  const converted = convertAmount(amount, unit, food.serving_unit);
+  if (converted === null) {
+    throw new Error(
+      `Cannot convert "${unit}" for ${food.name}; use "serving" or a unit compatible with ${food.serving_unit}`
+    );
+  }
+  return converted / food.serving_size;
+}
+
+// Scale a custom food's per-serving nutrition to the given amount
+export function scaleCustomFood(food: CustomFood, amount: number, unit: string): NutritionInfo {
+  const servings = customFoodServings(food, amount, unit);
+  return {
+    calories: Math.round(food.calories * servings),
+    protein_g: Math.round((food.protein_g ?? 0) * servings * 10) / 10,
+    carbs_g: Math.round((food.carbs_g ?? 0) * servings * 10) / 10,
+    fat_g: Math.round((food.fat_g ?? 0) * servings * 10) / 10,
+    fiber_g: Math.round((food.fiber_g ?? 0) * servings * 10) / 10,
+  };
+}
+
+// Scale a custom food's per-serving nutrients to the given amount
+export function scaleCustomFoodNutrients(food: CustomFood, amount: number, unit: string): NutrientAmount[] {
+  const servings = customFoodServings(food, amount, unit);
+  return getCustomFoodNutrients(food.id).map((n) => ({ ...n, amount: n.amount * servings }));
+}
+
+// Look up an ingredient line (USDA food or custom food) and compute its nutrition
+export async function resolveIngredient(
+  usdaApi: USDAApi,
+  line: IngredientLine
+): Promise<Omit<RecipeIngredient, "id" | "recipe_id"> & { nutrients: NutrientAmount[] }> {
+  if (line.custom_food_id !== undefined) {
+    const food = getCustomFood(line.custom_food_id);
+    if (!food) {
+      throw new Error(`Custom food ${line.custom_food_id} not found`);
+    }
+    return {
+      food_name: food.name,
+      fdc_id: null,
+      custom_food_id: food.id,
+      amount: line.amount,
+      unit: normalizeUnit(line.unit),
+      ...scaleCustomFood(food, line.amount, line.unit),
+      nutrients: scaleCustomFoodNutrients(food, line.amount, line.unit),
+    };
+  }
+
+  if (line.fdc_id !== undefined) {
+    const { food, nutrition, nutrients } = await usdaApi.getServingNutrition(
+      line.fdc_id,
+      line.amount,
+      line.unit,
+      line.density_g_per_ml
+    );
+    return {
+      food_name: food.description,
+      fdc_id: food.fdcId,
+      custom_food_id: null,
+      amount: line.amount,
+      unit: normalizeUnit(line.unit),
+      ...nutrition,
+      nutrients,
+    };
+  }
+
+  throw new Error("Each ingredient needs either an fdc_id or a custom_food_id");
+}
@@ -0,0 +1,219 @@
+import type { AuditRecord, DailySummary, FoodLogEntry, Goals, NutritionInfo } from "../types.js";
+import {
+  calculateTotals,
+  getDailyLog,
+  getGoalHistory,
+  getGoalSchedule,
+  getGoalsForDate,
+  getLogsByDateRange,
+  getNutrientGoals,
+  getNutrientTotals,
+} from "./database.js";
+import { isValidDate } from "./dates.js";
+
+const MIME_TYPE = "application/json";
+
+const DATE = String.raw`\d{4}-\d{2}-\d{2}`;
+const LOG_URI = new RegExp(`^food://log/(${DATE})$`);
+const SUMMARY_URI = new RegExp(`^food://summary/(${DATE})/(${DATE})$`);
+export const GOALS_URI = "food://goals";
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "food://log/{date}",
+    name: "daily-log",
+    title: "Daily food log",
+    description: "Entries, totals, goals and remaining macros for a day (YYYY-MM-DD)",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: "food://summary/{start_date}/{end_date}",
+    name: "summary",
+    title: "Nutrition summary",
+    description: "Daily totals against goals and averages for a date range",
+    mimeType: MIME_TYPE,
+  },
+];
+
+export interface MacroTotals {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+}
+
+export type DaySnapshot = DailySummary & { profile: string };
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function roundTotals(totals: NutritionInfo): NutritionInfo {
+  return {
+    calories: Math.round(totals.calories),
+    protein_g: round(totals.protein_g),
+    carbs_g: round(totals.carbs_g),
+    fat_g: round(totals.fat_g),
+    fiber_g: round(totals.fiber_g),
+  };
+}
+
+// Goal minus intake for each macro that has a goal; negative when over
+export function remainingMacros(goals: Goals | null, totals: NutritionInfo): Partial<MacroTotals> | null {
+  if (!goals) return null;
+  const remaining: Partial<MacroTotals> = {};
+  if (goals.daily_calories) remaining.calories = Math.round(goals.daily_calories - totals.calories);
+  if (goals.protein_g) remaining.protein_g = round(goals.protein_g - totals.protein_g);
+  if (goals.carbs_g) remaining.carbs_g = round(goals.carbs_g - totals.carbs_g);
+  if (goals.fat_g) remaining.fat_g = round(goals.fat_g - totals.fat_g);
+  return Object.keys(remaining).length > 0 ? remaining : null;
+}
+
+// A day's entries, totals, goals in force, remaining macros and nutrient totals
+export function getDailySummary(userId: number, date: string): DailySummary {
+  const entries = getDailyLog(userId, date);
+  const goals = getGoalsForDate(userId, date);
+  const totals = roundTotals(calculateTotals(entries));
+  return {
+    date,
+    entries,
+    totals,
+    goals,
+    remaining: remainingMacros(goals, totals),
+    nutrients: getNutrientTotals(userId, date, date),
+  };
+}
+
+export function getDaySnapshot(userId: number, profile: string, date: string): DaySnapshot {
+  return { profile, ...getDailySummary(userId, date) };
+}
+
+export function getSummarySnapshot(userId: number, profile: string, startDate: string, endDate: string) {
+  const byDate = new Map<string, FoodLogEntry[]>();
+  for (const entry of getLogsByDateRange(userId, startDate, endDate)) {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  }
+
+  const days = [...byDate.entries()].map(([date, entries]) => ({
+    date,
+    goals: getGoalsForDate(userId, date),
+    totals: roundTotals(calculateTotals(entries)),
+  }));
+  const average = (value: (totals: NutritionInfo) => number) =>
+    days.length === 0 ? 0 : days.reduce((sum, d) => sum + value(d.totals), 0) / days.length;
+
+  return {
+    profile,
+    start_date: startDate,
+    end_date: endDate,
+    logged_days: days.length,
+    averages: roundTotals({
+      calories: average((t) => t.calories),
+      protein_g: average((t) => t.protein_g),
+      carbs_g: average((t) => t.carbs_g),
+      fat_g: average((t) => t.fat_g),
+      fiber_g: average((t) => t.fiber_g),
+    }),
+    days,
+  };
+}
+
+function getGoalsSnapshot(userId: number, profile: string, today: string) {
+  return {
+    profile,
+    today: getGoalsForDate(userId, today),
+    history: getGoalHistory(userId),
+    nutrient_goals: getNutrientGoals(userId),
+    schedule: getGoalSchedule(userId, today),
+  };
+}
+
+// Resources offered in resources/list; other dates are reachable through the templates
+export function listResources(today: string, weekStart: string) {
+  return [
+    {
+      uri: `food://log/${today}`,
+      name: `log-${today}`,
+      title: `Food log for ${today}`,
+      mimeType: MIME_TYPE,
+    },
+    {
+      uri: GOALS_URI,
+      name: "goals",
+      title: "Goals",
+      description: "Goals in force today, goal history, nutrient goals and the goal schedule",
+      mimeType: MIME_TYPE,
+    },
+    {
+      uri: `food://summary/${weekStart}/${today}`,
+      name: "summary-week",
+      title: "Summary of the last 7 days",
+      mimeType: MIME_TYPE,
+    },
+  ];
+}
+
+export function readResource(uri: string, userId: number, profile: string, today: string) {
+  let data: unknown;
+  const log = uri.match(LOG_URI);
+  const summary = uri.match(SUMMARY_URI);
+  const dates = log?.slice(1) ?? summary?.slice(1) ?? [];
+  if (dates.some((date) => !isValidDate(date))) {
+    throw new Error(`Invalid date in ${uri}; expected YYYY-MM-DD`);
+  }
+  if (log) {
+    data = getDaySnapshot(userId, profile, log[1]);
+  } else if (summary) {
+    data = getSummarySnapshot(userId, profile, summary[1], summary[2]);
+  } else if (uri === GOALS_URI) {
+    data = getGoalsSnapshot(userId, profile, today);
+  } else {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  return { uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) };
+}
+
+// The subscribed resources whose contents a change may have altered. Food log
+// changes touch the days of the entries; goal changes touch every day from the
+// goal's effective date.
+export function affectedResources(records: AuditRecord[], subscribed: Iterable<string>): string[] {
+  const dates = new Set<string>();
+  let goalsFrom: string | null = null;
+  for (const record of records) {
+    for (const snapshot of [record.before, record.after]) {
+      if (!snapshot) continue;
+      const row = JSON.parse(snapshot);
+      if (record.table_name === "food_logs") {
+        dates.add(row.date);
+      } else if (goalsFrom === null || row.effective_from < goalsFrom) {
+        goalsFrom = row.effective_from;
+      }
+    }
+  }
+
+  return [...subscribed].filter((uri) => {
+    if (uri === GOALS_URI) return goalsFrom !== null;
+    const log = uri.match(LOG_URI);
+    if (log) return dates.has(log[1]) || (goalsFrom !== null && log[1] >= goalsFrom);
+    const summary = uri.match(SUMMARY_URI);
+    if (summary) {
+      const [, start, end] = summary;
+      return (
+        [...dates].some((date) => date >= start && date <= end) || (goalsFrom !== null && end >= goalsFrom)
+      );
+    }
+    return false;
+  });
+}
+
+// The subscribed resources a change to goal templates, the goal schedule or
+// nutrient goals may have altered: the goals themselves and either the one
+// tagged date or every day
+export function goalSettingsResources(date: string | null, subscribed: Iterable<string>): string[] {
+  return [...subscribed].filter((uri) => {
+    if (uri === GOALS_URI) return true;
+    const log = uri.match(LOG_URI);
+    if (log) return date === null || log[1] === date;
+    const summary = uri.match(SUMMARY_URI);
+    if (summary) return date === null || (date >= summary[1] && date <= summary[2]);
+    return false;
+  });
+}
@@ -0,0 +1,40 @@
+// Word-level matching of food phrases ("two eggs") against food names
+// ("Egg, whole, raw, fresh"), shared by search ranking and meal parsing
+
+const STOPWORDS = new Set(["a", "an", "the", "of", "with", "and", "in", "on", "or", "some", "to"]);
+
+export function singular(word: string): string {
+  if (!/^[a-z]+$/i.test(word)) return word;
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("es") && /(?:ch|sh|x|ss|o)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !/(?:ss|us)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+export function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t && !STOPWORDS.has(t))
+    .map(singular);
+}
+
+// How well a food's name matches a phrase. The last word of the phrase is
+// usually the food itself ("black coffee"), so it counts most; the rest of
+// the phrase and how little else the name says make up the remainder.
+export function matchConfidence(phrase: string, name: string): number {
+  const wanted = tokens(phrase);
+  const offered = tokens(name);
+  if (wanted.length === 0 || offered.length === 0) return 0;
+
+  const found = (token: string) => offered.some((t) => t === token || t.startsWith(token));
+  const head = wanted[wanted.length - 1];
+  const rest = wanted.slice(0, -1);
+  const matched = wanted.filter(found).length;
+
+  const score =
+    (found(head) ? 0.5 : 0) +
+    0.3 * (rest.length === 0 ? 1 : rest.filter(found).length / rest.length) +
+    0.2 * Math.min(1, matched / offered.length);
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,120 @@
+import type { BodyMetric, FoodLogEntry } from "../types.js";
+import { CALORIES_PER_KG } from "./energy.js";
+
+// Daily smoothing factor of the exponential weight trend (as in The Hacker's Diet)
+const TREND_SMOOTHING = 0.1;
+
+// Window of the simple moving average, in days
+const MOVING_AVERAGE_DAYS = 7;
+
+// Shortest span of weigh-ins that gives a meaningful rate or expenditure
+const MIN_SPAN_DAYS = 7;
+
+export interface WeightTrendPoint {
+  date: string;
+  weight_kg: number;
+  trend_kg: number; // exponentially smoothed
+  average_kg: number; // moving average of the last 7 days of weigh-ins
+}
+
+export interface WeightAnalysis {
+  points: WeightTrendPoint[];
+  weekly_rate_kg: number | null; // from a linear fit of the weigh-ins
+  span_days: number;
+}
+
+export interface ExpenditureEstimate {
+  average_intake: number;
+  expenditure: number;
+  logged_days: number;
+  span_days: number;
+}
+
+function dayNumber(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 86_400_000;
+}
+
+// Smooth weigh-ins with an exponential moving average and a 7-day moving
+// average. Gaps between weigh-ins weight the next reading as if the missing
+// days had been logged at the trend value.
+export function analyzeWeight(metrics: BodyMetric[]): WeightAnalysis {
+  const weighIns = metrics
+    .filter((m): m is BodyMetric & { weight_kg: number } => m.weight_kg !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const points: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+  let previousDay = 0;
+
+  for (const [i, m] of weighIns.entries()) {
+    const day = dayNumber(m.date);
+    if (trend === null) {
+      trend = m.weight_kg;
+    } else {
+      const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, day - previousDay);
+      trend += alpha * (m.weight_kg - trend);
+    }
+    previousDay = day;
+
+    const window = weighIns
+      .slice(0, i + 1)
+      .filter((w) => day - dayNumber(w.date) < MOVING_AVERAGE_DAYS);
+    points.push({
+      date: m.date,
+      weight_kg: m.weight_kg,
+      trend_kg: trend,
+      average_kg: window.reduce((sum, w) => sum + w.weight_kg, 0) / window.length,
+    });
+  }
+
+  const spanDays =
+    points.length > 1 ? dayNumber(points[points.length - 1].date) - dayNumber(points[0].date) : 0;
+
+  return {
+    points,
+    weekly_rate_kg: spanDays >= MIN_SPAN_DAYS ? weightSlope(points) * 7 : null,
+    span_days: spanDays,
+  };
+}
+
+// Least-squares slope of weight over time, in kg per day
+function weightSlope(points: WeightTrendPoint[]): number {
+  const xs = points.map((p) => dayNumber(p.date));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, p) => sum + p.weight_kg, 0) / points.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach((p, i) => {
+    numerator += (xs[i] - meanX) * (p.weight_kg - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+// Estimate actual daily energy expenditure as average intake minus the energy
+// stored or released by the weight change. Only days with food entries count
+// towards the intake average.
+export function estimateExpenditure(
+  analysis: WeightAnalysis,
+  entries: FoodLogEntry[]
+): ExpenditureEstimate | null {
+  if (analysis.weekly_rate_kg === null) return null;
+
+  const intakeByDate = new Map<string, number>();
+  for (const entry of entries) {
+    intakeByDate.set(entry.date, (intakeByDate.get(entry.date) ?? 0) + entry.calories);
+  }
+  if (intakeByDate.size === 0) return null;
+
+  const averageIntake =
+    [...intakeByDate.values()].reduce((sum, c) => sum + c, 0) / intakeByDate.size;
+  const storedPerDay = (analysis.weekly_rate_kg / 7) * CALORIES_PER_KG;
+
+  return {
+    average_intake: Math.round(averageIntake),
+    expenditure: Math.round(averageIntake - storedPerDay),
+    logged_days: intakeByDate.size,
+    span_days: analysis.span_days + 1,
+  };
+}
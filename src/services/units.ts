@@ -0,0 +1,183 @@
+import type { USDAFoodPortion } from "../types.js";
+
+export type UnitKind = "mass" | "volume" | "count";
+
+interface UnitDefinition {
+  name: string;
+  kind: UnitKind;
+  // grams per unit for mass, milliliters per unit for volume, 1 for counts
+  factor: number;
+  aliases: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  // Mass
+  { name: "g", kind: "mass", factor: 1, aliases: ["gram", "grams", "gr", "grm"] },
+  { name: "mg", kind: "mass", factor: 0.001, aliases: ["milligram", "milligrams"] },
+  { name: "kg", kind: "mass", factor: 1000, aliases: ["kilogram", "kilograms", "kilo", "kilos"] },
+  { name: "oz", kind: "mass", factor: 28.3495, aliases: ["ounce", "ounces"] },
+  { name: "lb", kind: "mass", factor: 453.592, aliases: ["lbs", "pound", "pounds"] },
+
+  // Volume
+  { name: "ml", kind: "volume", factor: 1, aliases: ["milliliter", "milliliters", "millilitre", "millilitres", "mlt"] },
+  { name: "l", kind: "volume", factor: 1000, aliases: ["liter", "liters", "litre", "litres"] },
+  { name: "cup", kind: "volume", factor: 236.588, aliases: ["cups", "c"] },
+  { name: "tbsp", kind: "volume", factor: 14.7868, aliases: ["tablespoon", "tablespoons", "tbs", "tbl"] },
+  { name: "tsp", kind: "volume", factor: 4.92892, aliases: ["teaspoon", "teaspoons"] },
+  { name: "fl oz", kind: "volume", factor: 29.5735, aliases: ["floz", "fl. oz", "fl.oz", "fluid ounce", "fluid ounces"] },
+
+  // Counts
+  { name: "serving", kind: "count", factor: 1, aliases: ["servings", "srv"] },
+  { name: "piece", kind: "count", factor: 1, aliases: ["pieces", "pc", "pcs", "each", "ea", "item", "items", "whole"] },
+];
+
+export function parseUnit(unit: string): UnitDefinition | null {
+  const normalized = unit.toLowerCase().trim().replace(/\s+/g, " ");
+  return (
+    UNITS.find((u) => u.name === normalized || u.aliases.includes(normalized)) ?? null
+  );
+}
+
+// Canonical spelling of a unit ("Ounces" -> "oz"), or the trimmed input if unknown
+export function normalizeUnit(unit: string): string {
+  return parseUnit(unit)?.name ?? unit.trim();
+}
+
+// Convert between two units of the same kind (mass or volume) without any
+// food-specific information. Returns null if the units are not comparable.
+export function convertAmount(amount: number, fromUnit: string, toUnit: string): number | null {
+  const from = parseUnit(fromUnit);
+  const to = parseUnit(toUnit);
+  if (!from || !to) {
+    return fromUnit.toLowerCase().trim() === toUnit.toLowerCase().trim() ? amount : null;
+  }
+  if (from.kind !== to.kind) return null;
+  if (from.kind === "count" && from.name !== to.name) return null;
+  return (amount * from.factor) / to.factor;
+}
+
+// Food-specific information used to convert volumes and counts into grams
+export interface ConversionContext {
+  density?: number; // grams per milliliter
+  portions?: USDAFoodPortion[];
+  servingSize?: number;
+  servingSizeUnit?: string;
+}
+
+// Human-readable label for a household portion, e.g. "1 cup, chopped (158g)"
+export function describePortion(portion: USDAFoodPortion): string {
+  const amount = portion.amount ?? 1;
+  const unit = portion.measureUnit?.name;
+  const label =
+    unit && unit !== "undetermined"
+      ? [unit, portion.modifier].filter(Boolean).join(", ")
+      : portion.portionDescription || portion.modifier || "portion";
+  return `${amount} ${label} (${portion.gramWeight}g)`;
+}
+
+function portionLabels(portion: USDAFoodPortion): string[] {
+  return [
+    portion.measureUnit?.name,
+    portion.measureUnit?.abbreviation,
+    portion.modifier,
+    portion.portionDescription,
+  ]
+    .filter((c): c is string => !!c && c !== "undetermined")
+    .map((c) => c.toLowerCase().trim());
+}
+
+// Unit naming a food's natural household portion, for amounts given without
+// a unit: the first countable one ("large" for eggs, "pat" for butter) or
+// else the first portion ("cup" for coffee)
+export function defaultPortionUnit(portions: USDAFoodPortion[] | undefined): string | null {
+  const labels = (portions ?? [])
+    .map((portion) => portionLabels(portion)[0]?.split(/[,(]/)[0].trim())
+    .filter((label): label is string => !!label);
+  return labels.find((label) => parseUnit(label) === null) ?? labels[0] ?? null;
+}
+
+function matchesPortion(portion: USDAFoodPortion, unit: string): boolean {
+  return portionLabels(portion).some(
+    (c) =>
+      c === unit ||
+      c === `${unit}s` ||
+      `${c}s` === unit ||
+      c.startsWith(`${unit},`) ||
+      c.startsWith(`${unit} `) ||
+      c.startsWith(`1 ${unit}`)
+  );
+}
+
+// Volume unit a portion is measured in, e.g. "cup" for "1 cup, chopped"
+function portionVolumeUnit(portion: USDAFoodPortion): UnitDefinition | null {
+  for (const label of portionLabels(portion)) {
+    const head = label.replace(/^[\d./\s]+/, "").split(",")[0];
+    const unit = parseUnit(head);
+    if (unit?.kind === "volume") return unit;
+  }
+  return null;
+}
+
+function volumeToGrams(ml: number, context: ConversionContext): number | null {
+  if (context.density) return ml * context.density;
+
+  // Derive a density from any volume-based USDA portion
+  for (const portion of context.portions ?? []) {
+    const unit = portionVolumeUnit(portion);
+    if (unit) {
+      const portionMl = (portion.amount || 1) * unit.factor;
+      return ml * (portion.gramWeight / portionMl);
+    }
+  }
+
+  // Branded liquids report nutrients per 100 ml rather than per 100 g
+  if (context.servingSizeUnit && parseUnit(context.servingSizeUnit)?.kind === "volume") {
+    return ml;
+  }
+
+  return null;
+}
+
+// Convert an amount of a food to grams. Mass units convert directly; volumes
+// use an explicit density or USDA portion gram weights; counts use matching
+// portions (e.g. "large", "slice") or the branded label serving size.
+export function convertToGrams(
+  amount: number,
+  unit: string,
+  context: ConversionContext = {}
+): number | null {
+  const normalized = unit.toLowerCase().trim().replace(/\s+/g, " ");
+  const definition = parseUnit(normalized);
+
+  if (definition?.kind === "mass") {
+    return amount * definition.factor;
+  }
+
+  if (definition?.kind === "volume") {
+    // Prefer a portion measured in exactly this unit over a derived density
+    if (!context.density) {
+      const portion = context.portions?.find(
+        (p) => portionVolumeUnit(p)?.name === definition.name
+      );
+      if (portion) return (amount / (portion.amount || 1)) * portion.gramWeight;
+    }
+    return volumeToGrams(amount * definition.factor, context);
+  }
+
+  const portion = context.portions?.find((p) => matchesPortion(p, normalized));
+  if (portion) {
+    return (amount / (portion.amount || 1)) * portion.gramWeight;
+  }
+
+  if (definition?.kind === "count" && context.servingSize && context.servingSizeUnit) {
+    const servingUnit = parseUnit(context.servingSizeUnit);
+    if (servingUnit?.kind === "mass") {
+      return amount * context.servingSize * servingUnit.factor;
+    }
+    if (servingUnit?.kind === "volume") {
+      return volumeToGrams(amount * context.servingSize * servingUnit.factor, context);
+    }
+  }
+
+  return null;
+}
@@ -1,32 +1,294 @@
 import type {
   USDASearchResponse,
   USDAFood,
+  USDANutrient,
+  NutrientAmount,
   NutritionInfo,
   FoodSearchResult,
 } from "../types.js";
+import { barcodeKey, formatBarcode, normalizeBarcode } from "./barcodes.js";
+import { findNutrient, normalizeNutrientUnit, NUTRIENT_KEYS } from "./nutrients.js";
+import { matchConfidence, tokens } from "./text-match.js";
+import { convertToGrams, describePortion } from "./units.js";
+import {
+  cacheUSDAFood,
+  findFdcIdsByBarcode,
+  getCachedUSDAFood,
+  getDatasetFood,
+  getLoggedFdcCounts,
+  searchCachedUSDAFoods,
+  searchDatasetFoods,
+} from "./database.js";
 
 const USDA_API_BASE = "https://api.nal.usda.gov/fdc/v1";
+const DEFAULT_CACHE_TTL_DAYS = 30;
+export const USDA_DATA_TYPES = ["Foundation", "SR Legacy", "Survey (FNDDS)", "Branded"] as const;
+const SEARCH_DATA_TYPES = ["Foundation", "SR Legacy", "Branded"];
+
+// Results are re-ranked locally, so a search fetches a pool of candidates
+// larger than the page asked for (the API returns at most 200). Only the
+// first MAX_SEARCH_POOL matches can be ranked and paged through.
+const MIN_SEARCH_POOL = 50;
+export const MAX_SEARCH_POOL = 200;
+
+// Ranking boost for generic foods over branded products with similar names
+const GENERIC_BOOST: Record<string, number> = {
+  Foundation: 0.15,
+  "SR Legacy": 0.15,
+  "Survey (FNDDS)": 0.1,
+};
+
+// Macros addressable in nutrient constraints, by their NutritionInfo field
+const MACRO_KEYS: Record<string, keyof NutritionInfo> = {
+  calories: "calories",
+  protein: "protein_g",
+  carbs: "carbs_g",
+  fat: "fat_g",
+  fiber: "fiber_g",
+};
 
 // Nutrient IDs in USDA database
 const NUTRIENT_IDS = {
   ENERGY: 1008, // Calories (kcal)
+  ENERGY_ATWATER_GENERAL: 2047, // Foundation foods often report only Atwater energy
+  ENERGY_ATWATER_SPECIFIC: 2048,
   PROTEIN: 1003,
   CARBS: 1005, // Carbohydrate, by difference
   FAT: 1004, // Total lipid (fat)
   FIBER: 1079, // Fiber, total dietary
 };
 
+// The details endpoint nests nutrient info ({ nutrient: {...}, amount }) while
+// search results are flat ({ nutrientId, value }), so accept either shape.
+interface RawNutrient {
+  nutrientId?: number;
+  nutrientName?: string;
+  nutrientNumber?: string;
+  unitName?: string;
+  value?: number;
+  amount?: number;
+  nutrient?: {
+    id: number;
+    number?: string;
+    name?: string;
+    unitName?: string;
+  };
+}
+
+function normalizeNutrient(raw: RawNutrient): USDANutrient {
+  return {
+    nutrientId: raw.nutrientId ?? raw.nutrient?.id ?? 0,
+    nutrientName: raw.nutrientName ?? raw.nutrient?.name ?? "",
+    nutrientNumber: raw.nutrientNumber ?? raw.nutrient?.number ?? "",
+    unitName: raw.unitName ?? raw.nutrient?.unitName ?? "",
+    value: raw.value ?? raw.amount ?? 0,
+  };
+}
+
+export interface USDAApiOptions {
+  cacheTtlDays?: number;
+}
+
+// Amount of a nutrient per 100 g a search result must have
+export interface NutrientConstraint {
+  nutrient: string; // macro (calories, protein, carbs, fat, fiber), nutrient key or USDA nutrient ID
+  min?: number;
+  max?: number;
+}
+
+export interface FoodSearchOptions {
+  limit?: number;
+  offset?: number;
+  dataTypes?: string[]; // USDA_DATA_TYPES (default: all but Survey, or Branded when `brand` is set)
+  brand?: string; // part of the brand owner's name
+  nutrients?: NutrientConstraint[];
+  userId?: number; // rank foods this profile has logged higher
+}
+
+export interface FoodSearchPage {
+  foods: FoodSearchResult[];
+  hasMore: boolean;
+  truncated: boolean; // more foods match than the ranked pool holds
+}
+
 export class USDAApi {
-  private apiKey: string;
+  private apiKey: string | undefined;
+  private cacheTtlDays: number;
 
-  constructor(apiKey: string) {
+  // Without an API key, foods come only from the imported dataset and cache
+  constructor(apiKey: string | undefined, options: USDAApiOptions = {}) {
     this.apiKey = apiKey;
+    this.cacheTtlDays = options.cacheTtlDays ?? DEFAULT_CACHE_TTL_DAYS;
+  }
+
+  // Search USDA, caching every hit locally. When the API is unreachable,
+  // rejects the request or no key is configured, fall back to full-text
+  // search over the imported dataset and the cache. A pool of candidates is
+  // filtered and re-ranked locally before the requested page is cut from it.
+  async searchFoods(query: string, options: FoodSearchOptions = {}): Promise<FoodSearchPage> {
+    const { limit = 10, offset = 0, brand, nutrients = [], userId } = options;
+    if (offset >= MAX_SEARCH_POOL) {
+      throw new Error(
+        `Only the top ${MAX_SEARCH_POOL} matches are ranked, so offset must be below ${MAX_SEARCH_POOL}. ` +
+          "Narrow the query or filter by data type, brand or nutrients to reach other foods."
+      );
+    }
+    const dataTypes = options.dataTypes ?? (brand ? ["Branded"] : SEARCH_DATA_TYPES);
+    const poolSize = Math.min(MAX_SEARCH_POOL, Math.max(MIN_SEARCH_POOL, 2 * (offset + limit)));
+    const constraints = nutrients.map((c) => ({ ...c, value: this.nutrientReader(c.nutrient) }));
+
+    let foods: USDAFood[] | null = null;
+    let apiError: unknown = null;
+    let truncated = false;
+
+    if (this.apiKey) {
+      try {
+        foods = await this.fetchSearch(query, poolSize, dataTypes, brand);
+        truncated = poolSize === MAX_SEARCH_POOL && foods.length >= poolSize;
+        for (const food of foods) {
+          cacheUSDAFood(food, false);
+        }
+      } catch (error) {
+        apiError = error;
+      }
+    }
+
+    const cached = foods === null;
+    if (foods === null) {
+      foods = searchDatasetFoods(query, poolSize);
+      const cachedFoods = searchCachedUSDAFoods(query, poolSize);
+      truncated = poolSize === MAX_SEARCH_POOL && Math.max(foods.length, cachedFoods.length) >= poolSize;
+      const seen = new Set(foods.map((f) => f.fdcId));
+      for (const food of cachedFoods) {
+        if (!seen.has(food.fdcId)) foods.push(food);
+      }
+      if (foods.length === 0 && apiError) throw apiError;
+    }
+
+    const wantedTypes = dataTypes.map((t) => t.toLowerCase());
+    const matching = foods.filter(
+      (food) =>
+        wantedTypes.includes(food.dataType?.toLowerCase()) &&
+        (!brand || food.brandOwner?.toLowerCase().includes(brand.toLowerCase())) &&
+        constraints.every(({ min, max, value }) => {
+          const amount = value(food);
+          return (min === undefined || amount >= min) && (max === undefined || amount <= max);
+        })
+    );
+
+    const timesLogged = userId !== undefined ? getLoggedFdcCounts(userId) : new Map<number, number>();
+    const ranked = matching
+      .map((food, index) => ({ food, index, score: this.rankScore(query, food, timesLogged.get(food.fdcId) ?? 0) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ food }) => food);
+
+    return {
+      foods: ranked.slice(offset, offset + limit).map((food) => ({
+        fdcId: food.fdcId,
+        description: food.description,
+        brandOwner: food.brandOwner,
+        dataType: food.dataType,
+        nutrition: this.extractNutrition(food),
+        servingSize: food.servingSize,
+        servingSizeUnit: food.servingSizeUnit,
+        cached,
+        timesLogged: timesLogged.get(food.fdcId) ?? 0,
+      })),
+      hasMore: ranked.length > offset + limit,
+      truncated,
+    };
+  }
+
+  // Relevance of a search hit: how well its name matches, with boosts for
+  // every query word appearing whole, generic and raw foods, and foods the
+  // profile logs often
+  private rankScore(query: string, food: USDAFood, timesLogged: number): number {
+    const words = tokens(food.description);
+    const exact = tokens(query).every((token) => words.includes(token));
+    return (
+      matchConfidence(query, food.description) +
+      (exact ? 0.1 : 0) +
+      (GENERIC_BOOST[food.dataType] ?? 0) +
+      (words.includes("raw") ? 0.05 : 0) +
+      Math.min(0.3, 0.1 * Math.log2(1 + timesLogged))
+    );
+  }
+
+  // Reads a constrained nutrient's amount per 100 g from a food
+  private nutrientReader(nutrient: string): (food: USDAFood) => number {
+    const macro = MACRO_KEYS[nutrient.toLowerCase().trim()];
+    if (macro) {
+      return (food) => this.extractNutrition(food)[macro];
+    }
+    const definition = findNutrient(nutrient);
+    const id = definition?.id ?? (/^\d+$/.test(nutrient.trim()) ? Number(nutrient) : null);
+    if (id === null) {
+      throw new Error(
+        `Unknown nutrient "${nutrient}". Use one of: ${[...Object.keys(MACRO_KEYS), ...NUTRIENT_KEYS].join(", ")} ` +
+          "or a USDA nutrient ID"
+      );
+    }
+    return (food) => food.foodNutrients.find((n) => n.nutrientId === id)?.value ?? 0;
   }
 
-  async searchFoods(
+  async getFoodDetails(fdcId: number): Promise<USDAFood | null> {
+    return (await this.lookupFood(fdcId))?.food ?? null;
+  }
+
+  // Fetch a food's full record, serving it from the cache while fresh and
+  // falling back to the imported dataset or any cached copy when the API is
+  // unavailable
+  async lookupFood(fdcId: number): Promise<{ food: USDAFood; cached: boolean } | null> {
+    const entry = getCachedUSDAFood(fdcId, this.cacheTtlDays);
+    if (entry?.complete && entry.fresh) {
+      return { food: entry.food, cached: true };
+    }
+
+    const local = getDatasetFood(fdcId) ?? entry?.food ?? null;
+
+    if (this.apiKey) {
+      try {
+        const food = await this.fetchFoodDetails(fdcId);
+        if (food) {
+          cacheUSDAFood(food, true);
+          return { food, cached: false };
+        }
+      } catch (error) {
+        if (!local) throw error;
+      }
+    }
+
+    return local ? { food: local, cached: true } : null;
+  }
+
+  // Resolve a UPC/EAN to its branded food. The imported dataset and cache are
+  // checked before the API is searched; when USDA has several records for one
+  // barcode the newest wins.
+  async lookupBarcode(code: string): Promise<{ food: USDAFood; cached: boolean } | null> {
+    const gtin = normalizeBarcode(code);
+    const key = barcodeKey(gtin);
+
+    let fdcId: number | undefined = findFdcIdsByBarcode(key)[0];
+    if (fdcId === undefined && this.apiKey) {
+      const foods = await this.fetchSearch(formatBarcode(gtin), 25, ["Branded"]);
+      for (const food of foods) {
+        cacheUSDAFood(food, false);
+      }
+      fdcId = foods
+        .filter((food) => food.gtinUpc && barcodeKey(food.gtinUpc) === key)
+        .reduce<number | undefined>((newest, food) => Math.max(newest ?? 0, food.fdcId), undefined);
+    }
+    if (fdcId === undefined) return null;
+
+    return this.lookupFood(fdcId);
+  }
+
+  private async fetchSearch(
     query: string,
-    pageSize: number = 10
-  ): Promise<FoodSearchResult[]> {
+    pageSize: number,
+    dataTypes: string[] = SEARCH_DATA_TYPES,
+    brandOwner?: string
+  ): Promise<USDAFood[]> {
     const url = `${USDA_API_BASE}/foods/search?api_key=${this.apiKey}`;
 
     const response = await fetch(url, {
@@ -37,7 +299,8 @@ export class USDAApi {
       body: JSON.stringify({
         query,
         pageSize,
-        dataType: ["Foundation", "SR Legacy", "Branded"],
+        dataType: dataTypes,
+        brandOwner,
       }),
     });
 
@@ -48,17 +311,12 @@ export class USDAApi {
     const data: USDASearchResponse = await response.json();
 
     return data.foods.map((food) => ({
-      fdcId: food.fdcId,
-      description: food.description,
-      brandOwner: food.brandOwner,
-      dataType: food.dataType,
-      nutrition: this.extractNutrition(food),
-      servingSize: food.servingSize,
-      servingSizeUnit: food.servingSizeUnit,
+      ...food,
+      foodNutrients: (food.foodNutrients ?? []).map(normalizeNutrient),
     }));
   }
 
-  async getFoodDetails(fdcId: number): Promise<USDAFood | null> {
+  private async fetchFoodDetails(fdcId: number): Promise<USDAFood | null> {
     const url = `${USDA_API_BASE}/food/${fdcId}?api_key=${this.apiKey}`;
 
     const response = await fetch(url);
@@ -70,7 +328,11 @@ export class USDAApi {
       throw new Error(`USDA API error: ${response.status} ${response.statusText}`);
     }
 
-    return response.json();
+    const food = await response.json();
+    return {
+      ...food,
+      foodNutrients: (food.foodNutrients ?? []).map(normalizeNutrient),
+    };
   }
 
   async getNutrition(fdcId: number): Promise<NutritionInfo | null> {
@@ -79,16 +341,74 @@ export class USDAApi {
     return this.extractNutrition(food);
   }
 
-  private extractNutrition(food: USDAFood): NutritionInfo {
-    const getNutrientValue = (nutrientId: number): number => {
-      const nutrient = food.foodNutrients.find(
-        (n) => n.nutrientId === nutrientId
+  // Convert an amount of a food to grams using its portions, label serving
+  // size or an explicit density (g/ml) for volume units
+  toGrams(food: USDAFood, amount: number, unit: string, density?: number): number | null {
+    return convertToGrams(amount, unit, {
+      density,
+      portions: food.foodPortions,
+      servingSize: food.servingSize,
+      servingSizeUnit: food.servingSizeUnit,
+    });
+  }
+
+  // Fetch a food and compute nutrition for the given amount of it
+  async getServingNutrition(
+    fdcId: number,
+    amount: number,
+    unit: string,
+    density?: number
+  ): Promise<{
+    food: USDAFood;
+    grams: number;
+    nutrition: NutritionInfo;
+    nutrients: NutrientAmount[];
+    cached: boolean;
+  }> {
+    const lookup = await this.lookupFood(fdcId);
+    if (!lookup) {
+      throw new Error(`Food with FDC ID ${fdcId} not found`);
+    }
+    const { food, cached } = lookup;
+
+    const grams = this.toGrams(food, amount, unit, density);
+    if (grams === null) {
+      const options = food.foodPortions?.map(describePortion) ?? [];
+      if (food.servingSize && food.servingSizeUnit) {
+        options.push(`1 serving (${food.servingSize}${food.servingSizeUnit.toLowerCase()})`);
+      }
+      throw new Error(
+        `Cannot convert "${unit}" for ${food.description}. ` +
+          (options.length > 0
+            ? `Use a mass unit (g, oz, lb) or one of: ${options.join("; ")}`
+            : "Use a mass unit (g, oz, lb) or provide a density for volume units")
       );
-      return nutrient?.value ?? 0;
+    }
+
+    const nutrition = this.scaleNutrition(this.extractNutrition(food), grams);
+    const nutrients = this.extractNutrients(food, grams);
+    return { food, grams: Math.round(grams * 10) / 10, nutrition, nutrients, cached };
+  }
+
+  private extractNutrition(food: USDAFood): NutritionInfo {
+    const getNutrientValue = (...nutrientIds: number[]): number => {
+      for (const nutrientId of nutrientIds) {
+        const nutrient = food.foodNutrients.find(
+          (n) => n.nutrientId === nutrientId
+        );
+        if (nutrient) return nutrient.value;
+      }
+      return 0;
     };
 
     return {
-      calories: Math.round(getNutrientValue(NUTRIENT_IDS.ENERGY)),
+      calories: Math.round(
+        getNutrientValue(
+          NUTRIENT_IDS.ENERGY,
+          NUTRIENT_IDS.ENERGY_ATWATER_GENERAL,
+          NUTRIENT_IDS.ENERGY_ATWATER_SPECIFIC
+        )
+      ),
       protein_g: Math.round(getNutrientValue(NUTRIENT_IDS.PROTEIN) * 10) / 10,
       carbs_g: Math.round(getNutrientValue(NUTRIENT_IDS.CARBS) * 10) / 10,
       fat_g: Math.round(getNutrientValue(NUTRIENT_IDS.FAT) * 10) / 10,
@@ -96,6 +416,18 @@ export class USDAApi {
     };
   }
 
+  // Every nutrient USDA reports for the food, scaled from per-100g to `grams`
+  extractNutrients(food: USDAFood, grams: number = 100): NutrientAmount[] {
+    return food.foodNutrients
+      .filter((n) => n.nutrientId > 0 && Number.isFinite(n.value))
+      .map((n) => ({
+        nutrient_id: n.nutrientId,
+        name: n.nutrientName,
+        unit: normalizeNutrientUnit(n.unitName),
+        amount: (n.value * grams) / 100,
+      }));
+  }
+
   // Scale nutrition values based on serving size
   scaleNutrition(
     nutrition: NutritionInfo,
@@ -0,0 +1,319 @@
+import fs from "fs";
+import path from "path";
+import type {
+  DatasetFoodNutrientRow,
+  DatasetFoodRow,
+  DatasetNutrientRow,
+  DatasetPortionRow,
+} from "../types.js";
+import {
+  insertDatasetFoodNutrients,
+  insertDatasetFoods,
+  insertDatasetNutrients,
+  insertDatasetPortions,
+  rebuildDatasetIndex,
+  replaceDatasetPortions,
+  updateDatasetBrandedFoods,
+} from "./database.js";
+import { readCsv } from "./csv.js";
+import { readJsonArray } from "./json-stream.js";
+
+const BATCH_SIZE = 5000;
+
+// data_type values in food.csv mapped to the names the API uses
+const CSV_DATA_TYPES: Record<string, string> = {
+  foundation_food: "Foundation",
+  sr_legacy_food: "SR Legacy",
+  branded_food: "Branded",
+  survey_fndds_food: "Survey (FNDDS)",
+};
+
+// Top-level keys of the JSON downloads
+const JSON_FOOD_KEYS = ["FoundationFoods", "SRLegacyFoods", "BrandedFoods", "SurveyFoods"];
+
+export interface ImportResult {
+  foods: number;
+  nutrients: number;
+  portions: number;
+}
+
+type ProgressCallback = (message: string) => void;
+
+// Import a FoodData Central download: either an extracted CSV directory
+// (containing food.csv) or a JSON file
+export async function importUSDADataset(
+  source: string,
+  onProgress: ProgressCallback = () => {}
+): Promise<ImportResult> {
+  if (!fs.existsSync(source)) {
+    throw new Error(`Path not found: ${source}`);
+  }
+
+  let result: ImportResult;
+  if (fs.statSync(source).isDirectory()) {
+    result = await importCsvDirectory(source, onProgress);
+  } else if (source.toLowerCase().endsWith(".json")) {
+    result = await importJsonFile(source, onProgress);
+  } else if (source.toLowerCase().endsWith(".zip")) {
+    throw new Error("Extract the .zip download first and pass the extracted directory or .json file");
+  } else {
+    throw new Error("Expected a directory of USDA CSV files or a USDA .json download");
+  }
+
+  onProgress("Rebuilding search index...");
+  rebuildDatasetIndex();
+  return result;
+}
+
+// Read a CSV in batches, handing each batch of mapped rows to `flush`
+async function importCsv<T>(
+  file: string,
+  map: (record: Record<string, string>) => T | null,
+  flush: (rows: T[]) => void
+): Promise<number> {
+  let batch: T[] = [];
+  let count = 0;
+
+  for await (const record of readCsv(file)) {
+    const row = map(record);
+    if (!row) continue;
+    batch.push(row);
+    if (batch.length >= BATCH_SIZE) {
+      flush(batch);
+      count += batch.length;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    flush(batch);
+    count += batch.length;
+  }
+  return count;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toText(value: string | undefined): string | null {
+  return value && value.trim() !== "" ? value.trim() : null;
+}
+
+async function importCsvDirectory(
+  dir: string,
+  onProgress: ProgressCallback
+): Promise<ImportResult> {
+  const file = (name: string) => path.join(dir, name);
+  if (!fs.existsSync(file("food.csv"))) {
+    throw new Error(`No food.csv found in ${dir}`);
+  }
+
+  if (fs.existsSync(file("nutrient.csv"))) {
+    onProgress("Importing nutrient definitions...");
+    await importCsv<DatasetNutrientRow>(
+      file("nutrient.csv"),
+      (r) => {
+        const id = toNumber(r.id);
+        if (id === null) return null;
+        return { id, name: r.name, number: toText(r.nutrient_nbr), unit_name: r.unit_name };
+      },
+      insertDatasetNutrients
+    );
+  }
+
+  const measureUnits = new Map<string, string>();
+  if (fs.existsSync(file("measure_unit.csv"))) {
+    for await (const r of readCsv(file("measure_unit.csv"))) {
+      measureUnits.set(r.id, r.name);
+    }
+  }
+
+  onProgress("Importing foods...");
+  const fdcIds = new Set<number>();
+  const foods = await importCsv<DatasetFoodRow>(
+    file("food.csv"),
+    (r) => {
+      const fdcId = toNumber(r.fdc_id);
+      const dataType = CSV_DATA_TYPES[r.data_type];
+      if (fdcId === null || !dataType) return null;
+      fdcIds.add(fdcId);
+      return {
+        fdc_id: fdcId,
+        description: r.description,
+        data_type: dataType,
+        brand_owner: null,
+        gtin_upc: null,
+        ingredients: null,
+        serving_size: null,
+        serving_size_unit: null,
+        household_serving: null,
+      };
+    },
+    insertDatasetFoods
+  );
+
+  if (fs.existsSync(file("branded_food.csv"))) {
+    onProgress("Importing branded food details...");
+    await importCsv(
+      file("branded_food.csv"),
+      (r) => {
+        const fdcId = toNumber(r.fdc_id);
+        if (fdcId === null || !fdcIds.has(fdcId)) return null;
+        return {
+          fdc_id: fdcId,
+          brand_owner: toText(r.brand_owner),
+          gtin_upc: toText(r.gtin_upc),
+          ingredients: toText(r.ingredients),
+          serving_size: toNumber(r.serving_size),
+          serving_size_unit: toText(r.serving_size_unit),
+          household_serving: toText(r.household_serving_fulltext),
+        };
+      },
+      updateDatasetBrandedFoods
+    );
+  }
+
+  onProgress("Importing food nutrients...");
+  const nutrients = await importCsv<DatasetFoodNutrientRow>(
+    file("food_nutrient.csv"),
+    (r) => {
+      const fdcId = toNumber(r.fdc_id);
+      const nutrientId = toNumber(r.nutrient_id);
+      const amount = toNumber(r.amount);
+      if (fdcId === null || nutrientId === null || amount === null || !fdcIds.has(fdcId)) {
+        return null;
+      }
+      return { fdc_id: fdcId, nutrient_id: nutrientId, amount };
+    },
+    insertDatasetFoodNutrients
+  );
+
+  let portions = 0;
+  if (fs.existsSync(file("food_portion.csv"))) {
+    onProgress("Importing food portions...");
+    portions = await importCsv<DatasetPortionRow>(
+      file("food_portion.csv"),
+      (r) => {
+        const fdcId = toNumber(r.fdc_id);
+        const gramWeight = toNumber(r.gram_weight);
+        if (fdcId === null || gramWeight === null || !fdcIds.has(fdcId)) return null;
+        return {
+          id: toNumber(r.id),
+          fdc_id: fdcId,
+          amount: toNumber(r.amount),
+          gram_weight: gramWeight,
+          modifier: toText(r.modifier),
+          portion_description: toText(r.portion_description),
+          measure_unit: measureUnits.get(r.measure_unit_id) ?? null,
+        };
+      },
+      insertDatasetPortions
+    );
+  }
+
+  return { foods, nutrients, portions };
+}
+
+interface JsonFood {
+  fdcId: number;
+  description: string;
+  dataType: string;
+  brandOwner?: string;
+  gtinUpc?: string;
+  ingredients?: string;
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodNutrients?: {
+    amount?: number;
+    nutrient?: { id: number; number?: string; name?: string; unitName?: string };
+  }[];
+  foodPortions?: {
+    id?: number;
+    amount?: number;
+    gramWeight?: number;
+    modifier?: string;
+    portionDescription?: string;
+    measureUnit?: { name?: string };
+  }[];
+}
+
+// Stream the foods of a JSON download in batches; the Branded Foods file is
+// several GB, far too large to parse in one go
+async function importJsonFile(file: string, onProgress: ProgressCallback): Promise<ImportResult> {
+  onProgress(`Importing foods from ${path.basename(file)}...`);
+
+  const seenNutrients = new Set<number>();
+  let nutrientDefs: DatasetNutrientRow[] = [];
+  let foodRows: DatasetFoodRow[] = [];
+  let nutrientRows: DatasetFoodNutrientRow[] = [];
+  let portionRows: DatasetPortionRow[] = [];
+  const result: ImportResult = { foods: 0, nutrients: 0, portions: 0 };
+
+  const flush = () => {
+    insertDatasetNutrients(nutrientDefs);
+    insertDatasetFoods(foodRows);
+    insertDatasetFoodNutrients(nutrientRows);
+    // Each food's portions are in the same batch as the food
+    replaceDatasetPortions(foodRows.map((f) => f.fdc_id), portionRows);
+    result.foods += foodRows.length;
+    result.nutrients += nutrientRows.length;
+    result.portions += portionRows.length;
+    nutrientDefs = [];
+    foodRows = [];
+    nutrientRows = [];
+    portionRows = [];
+  };
+
+  for await (const { item: food } of readJsonArray<JsonFood>(file, JSON_FOOD_KEYS)) {
+    foodRows.push({
+      fdc_id: food.fdcId,
+      description: food.description,
+      data_type: food.dataType,
+      brand_owner: food.brandOwner ?? null,
+      gtin_upc: food.gtinUpc ?? null,
+      ingredients: food.ingredients ?? null,
+      serving_size: food.servingSize ?? null,
+      serving_size_unit: food.servingSizeUnit ?? null,
+      household_serving: food.householdServingFullText ?? null,
+    });
+
+    for (const n of food.foodNutrients ?? []) {
+      if (!n.nutrient || n.amount === undefined) continue;
+      if (!seenNutrients.has(n.nutrient.id)) {
+        seenNutrients.add(n.nutrient.id);
+        nutrientDefs.push({
+          id: n.nutrient.id,
+          name: n.nutrient.name ?? "",
+          number: n.nutrient.number ?? null,
+          unit_name: n.nutrient.unitName ?? "",
+        });
+      }
+      nutrientRows.push({ fdc_id: food.fdcId, nutrient_id: n.nutrient.id, amount: n.amount });
+    }
+
+    for (const p of food.foodPortions ?? []) {
+      if (p.gramWeight === undefined) continue;
+      portionRows.push({
+        id: p.id ?? null,
+        fdc_id: food.fdcId,
+        amount: p.amount ?? null,
+        gram_weight: p.gramWeight,
+        modifier: p.modifier ?? null,
+        portion_description: p.portionDescription ?? null,
+        measure_unit: p.measureUnit?.name ?? null,
+      });
+    }
+
+    if (foodRows.length >= BATCH_SIZE) {
+      flush();
+      if (result.foods % (BATCH_SIZE * 20) === 0) onProgress(`Imported ${result.foods} foods...`);
+    }
+  }
+  flush();
+
+  return result;
+}
@@ -4,10 +4,13 @@ export interface USDAFood {
   description: string;
   dataType: string;
   brandOwner?: string;
+  gtinUpc?: string;
   ingredients?: string;
   servingSize?: number;
   servingSizeUnit?: string;
+  householdServingFullText?: string;
   foodNutrients: USDANutrient[];
+  foodPortions?: USDAFoodPortion[];
 }
 
 export interface USDANutrient {
@@ -18,6 +21,19 @@ export interface USDANutrient {
   value: number;
 }
 
+// Household portion (e.g. "1 cup, chopped") with its gram weight
+export interface USDAFoodPortion {
+  id?: number;
+  amount?: number;
+  gramWeight: number;
+  modifier?: string;
+  portionDescription?: string;
+  measureUnit?: {
+    name?: string;
+    abbreviation?: string;
+  };
+}
+
 export interface USDASearchResponse {
   totalHits: number;
   currentPage: number;
@@ -25,6 +41,50 @@ export interface USDASearchResponse {
   foods: USDAFood[];
 }
 
+// USDA food record stored in the local cache
+export interface CachedUSDAFood {
+  food: USDAFood;
+  complete: boolean; // full details record rather than an abridged search hit
+  fresh: boolean; // fetched within the cache TTL
+  fetched_at: string;
+}
+
+// Rows imported from a USDA FoodData Central dataset download
+export interface DatasetFoodRow {
+  fdc_id: number;
+  description: string;
+  data_type: string;
+  brand_owner: string | null;
+  gtin_upc: string | null;
+  ingredients: string | null;
+  serving_size: number | null;
+  serving_size_unit: string | null;
+  household_serving: string | null;
+}
+
+export interface DatasetNutrientRow {
+  id: number;
+  name: string;
+  number: string | null;
+  unit_name: string;
+}
+
+export interface DatasetFoodNutrientRow {
+  fdc_id: number;
+  nutrient_id: number;
+  amount: number;
+}
+
+export interface DatasetPortionRow {
+  id: number | null;
+  fdc_id: number;
+  amount: number | null;
+  gram_weight: number;
+  modifier: string | null;
+  portion_description: string | null;
+  measure_unit: string | null;
+}
+
 // Parsed nutrition data
 export interface NutritionInfo {
   calories: number;
@@ -37,7 +97,8 @@ export interface NutritionInfo {
 // Food log entry
 export interface FoodLogEntry {
   id: number;
-  logged_at: string;
+  user_id: number;
+  logged_at: string; // ISO 8601 with the profile's UTC offset
   date: string;
   meal: string | null;
   food_name: string;
@@ -50,16 +111,98 @@ export interface FoodLogEntry {
   fat_g: number | null;
   fiber_g: number | null;
   notes: string | null;
+  deleted_at?: string | null; // set when soft-deleted
+}
+
+// A food as it was logged, without the day and meal, so it can be logged again
+export type SavedFood = Pick<
+  FoodLogEntry,
+  "food_name" | "fdc_id" | "serving_size" | "serving_unit" | "calories" | "protein_g" | "carbs_g" | "fat_g" | "fiber_g"
+>;
+
+// A saved food with the nutrients captured when it was first logged
+export interface FoodToLog {
+  food: SavedFood;
+  nutrients: NutrientAmount[];
+}
+
+// Starred food, re-loggable in one step
+export interface FavoriteFood extends SavedFood {
+  id: number;
+  user_id: number;
+  created_at: string;
 }
 
-// User goals
+// Named set of foods eaten together, e.g. "usual breakfast"
+export interface MealTemplate {
+  id: number;
+  user_id: number;
+  name: string;
+  meal: string | null; // meal the foods are logged under unless overridden
+  created_at: string;
+  items: (SavedFood & { id: number })[];
+}
+
+// A food from the profile's history with how often and when it was logged
+export interface FrequentFood extends SavedFood {
+  entry_id: number; // most recent entry, whose serving is shown
+  times_logged: number;
+  last_date: string;
+  favorite_id: number | null;
+}
+
+// Amount of one USDA nutrient, per entry or summed over entries
+export interface NutrientAmount {
+  nutrient_id: number;
+  name: string;
+  unit: string;
+  amount: number;
+}
+
+// Person whose diary and goals are kept separately
+export interface Profile {
+  id: number;
+  name: string;
+  timezone: string | null; // IANA zone; null uses the server's zone
+  created_at: string;
+}
+
+// User goals, versioned by the date they take effect
 export interface Goals {
   id: number;
+  user_id: number;
+  effective_from: string;
   daily_calories: number | null;
   protein_g: number | null;
   carbs_g: number | null;
   fat_g: number | null;
   updated_at: string;
+  template?: string; // name of the goal template applied on a scheduled day
+}
+
+// Named set of goals (e.g. "training", "rest") applied by weekday or date
+export interface GoalTemplate {
+  id: number;
+  user_id: number;
+  name: string;
+  daily_calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+}
+
+export interface GoalSchedule {
+  weekdays: { weekday: number; template: string }[]; // 0 = Sunday
+  dates: { date: string; template: string }[];
+}
+
+// Daily target (min) and/or limit (max) for a nutrient
+export interface NutrientGoal {
+  nutrient_id: number;
+  name: string;
+  unit: string;
+  min_amount: number | null;
+  max_amount: number | null;
 }
 
 // Daily summary
@@ -68,7 +211,78 @@ export interface DailySummary {
   entries: FoodLogEntry[];
   totals: NutritionInfo;
   goals: Goals | null;
-  remaining: NutritionInfo | null;
+  remaining: Partial<Omit<NutritionInfo, "fiber_g">> | null; // only macros with a goal
+  nutrients: NutrientAmount[];
+}
+
+// One row written by a change, with JSON snapshots of the row before and after
+export interface AuditRecord {
+  id: number;
+  change_id: number;
+  user_id: number;
+  table_name: "food_logs" | "goal_versions";
+  row_id: number;
+  action: "insert" | "update" | "delete" | "restore";
+  before: string | null;
+  after: string | null;
+  undo_of: number | null;
+  created_at: string;
+}
+
+// Body measurements for one day; weight in kg, waist in cm
+export interface BodyMetric {
+  id: number;
+  user_id: number;
+  date: string;
+  weight_kg: number | null;
+  body_fat_pct: number | null;
+  waist_cm: number | null;
+  notes: string | null;
+  updated_at: string;
+}
+
+// User-defined food with nutrition per serving
+export interface CustomFood {
+  id: number;
+  name: string;
+  serving_size: number;
+  serving_unit: string;
+  calories: number;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+  fiber_g: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+// Saved recipe with nutrition per serving computed from its ingredients
+export interface Recipe {
+  id: number;
+  name: string;
+  servings: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g: number;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface RecipeIngredient {
+  id: number;
+  recipe_id: number;
+  food_name: string;
+  fdc_id: number | null;
+  custom_food_id: number | null;
+  amount: number;
+  unit: string;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g: number;
 }
 
 // Search result for display
@@ -80,4 +294,6 @@ export interface FoodSearchResult {
   nutrition: NutritionInfo;
   servingSize?: number;
   servingSizeUnit?: string;
+  cached?: boolean;
+  timesLogged?: number; // by the profile the search was for
 }